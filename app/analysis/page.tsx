@@ -1,6 +1,16 @@
 "use client";
 import { useState, useEffect } from "react";
 import Link from "next/link";
+import {
+  analyzeSpending,
+  type SpendingAnalysis,
+  type Transaction,
+} from "@/lib/spending";
+import { formatCategory, toRewardCategory } from "@/lib/categories";
+import type { RewardCategory } from "@/lib/cards";
+import type { CategoryRule } from "@/lib/storage";
+import type { AdminCategoryRule } from "@/lib/category-rules";
+import type { ExcludedTransaction, ExclusionReason } from "@/lib/exclusions";
 
 interface User {
   id: string;
@@ -23,35 +33,20 @@ interface Connection {
   last_synced?: string;
 }
 
-interface Transaction {
-  transaction_id: string;
-  account_id: string;
-  amount: number;
-  date: string;
-  name: string;
-  category?: string[];
-}
-
-interface SpendingAnalysis {
-  totalSpending: number;
-  monthlyAverage: number;
-  topCategory: {
-    category: string;
-    amount: number;
-    percentage: number;
-  };
-  categoryBreakdown: Array<{
-    category: string;
-    amount: number;
-    percentage: number;
-    count: number;
-  }>;
-  monthlyTrends: Array<{
-    month: string;
-    amount: number;
-  }>;
-  recentTransactions: Transaction[];
-}
+const EXCLUSION_LABELS: Record<ExclusionReason, string> = {
+  transfer: "Transfer between your accounts",
+  card_payment: "Credit card payment",
+  refund: "Refunded",
+  manual: "Excluded by you",
+};
+
+const EMPTY_RULE = {
+  pattern: "",
+  category: "general" as RewardCategory,
+  min_amount: "",
+  max_amount: "",
+  account_id: "",
+};
 
 export default function AnalysisPage() {
   const [user, setUser] = useState<User | null>(null);
@@ -60,10 +55,47 @@ export default function AnalysisPage() {
   const [analysis, setAnalysis] = useState<SpendingAnalysis | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState("");
+  const [rules, setRules] = useState<CategoryRule[]>([]);
+  const [adminRules, setAdminRules] = useState<AdminCategoryRule[]>([]);
+  const [categories, setCategories] = useState<RewardCategory[]>([]);
+  const [ruleForm, setRuleForm] = useState(EMPTY_RULE);
+  const [ruleError, setRuleError] = useState("");
+  const [excluded, setExcluded] = useState<ExcludedTransaction[]>([]);
+  // Stored transactions older than the 12 months analyzed
+  const [outsideWindow, setOutsideWindow] = useState(0);
 
   useEffect(() => {
     loadUserDataAndAnalysis();
-  }, []); // eslint-disable-line react-hooks/exhaustive-deps
+  }, []);
+
+  // Rules are applied server-side, so reload transactions after a change
+  const saveCategoryRule = async (
+    method: "POST" | "DELETE",
+    body: Record<string, unknown>
+  ) => {
+    const userId = localStorage.getItem("userId");
+    if (!userId) return;
+
+    try {
+      const response = await fetch("/api/users/category-rules", {
+        method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ userId, ...body }),
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        setRuleError(result.error || "Failed to save category rule");
+        return;
+      }
+
+      setRuleForm(EMPTY_RULE);
+      setRuleError("");
+      loadUserDataAndAnalysis();
+    } catch (error) {
+      console.error("Error saving category rule:", error);
+    }
+  };
 
   const loadUserDataAndAnalysis = async () => {
     try {
@@ -85,45 +117,47 @@ export default function AnalysisPage() {
       setUser(userData.user);
       setConnections(userData.connections || []);
 
-      if (userData.connections?.length === 0) {
+      // Load the user's merchant rules for the rules editor
+      const rulesResponse = await fetch(
+        `/api/users/category-rules?userId=${userId}`
+      );
+      if (rulesResponse.ok) {
+        const rulesData = await rulesResponse.json();
+        setRules(rulesData.rules);
+        setAdminRules(rulesData.admin_rules);
+        setCategories(rulesData.categories);
+      }
+
+      if (userData.connections?.length === 0 && !userData.csv_import_count) {
         setError(
-          "No bank connections found. Please connect your bank account first."
+          "No bank connections or CSV imports found. Please connect your bank account or import a CSV file first."
         );
         return;
       }
 
-      // Load transactions for all connections
-      const allTransactions: Transaction[] = [];
-
-      for (const connection of userData.connections) {
-        try {
-          const transactionResponse = await fetch("/api/plaid/transactions", {
-            method: "POST",
-            headers: { "Content-Type": "application/json" },
-            body: JSON.stringify({
-              userId: userId,
-              itemId: connection.item_id,
-              months: 12, // Get last 12 months for better analysis
-            }),
-          });
-
-          if (transactionResponse.ok) {
-            const transactionData = await transactionResponse.json();
-            allTransactions.push(...(transactionData.transactions || []));
-          }
-        } catch (error) {
-          console.error(
-            `Error loading transactions for ${connection.institution_name}:`,
-            error
-          );
-        }
+      // Load transactions across all connections, with transfers, card
+      // payments and refunds already set aside
+      const transactionResponse = await fetch(
+        `/api/users/transactions?userId=${userId}&months=12`
+      );
+      const transactionData = await transactionResponse.json();
+
+      if (!transactionResponse.ok) {
+        throw new Error(transactionData.error || "Failed to load transactions");
       }
 
+      const allTransactions: Transaction[] = transactionData.transactions;
+      setExcluded(transactionData.excluded);
+      setOutsideWindow(transactionData.outside_window || 0);
       setTransactions(allTransactions);
 
       if (allTransactions.length > 0) {
         const analysisResult = analyzeSpending(allTransactions);
         setAnalysis(analysisResult);
+      } else if (transactionData.outside_window > 0) {
+        setError(
+          `No transactions in the last 12 months. ${transactionData.outside_window} older transactions are not analyzed.`
+        );
       } else {
         setError("No transactions found. Please sync your transactions first.");
       }
@@ -135,83 +169,29 @@ export default function AnalysisPage() {
     }
   };
 
-  const analyzeSpending = (transactions: Transaction[]): SpendingAnalysis => {
-    // Filter out positive amounts (credits/refunds) and focus on spending
-    const spendingTransactions = transactions.filter((t) => t.amount > 0);
+  const setTransactionExcluded = async (
+    transactionId: string,
+    isExcluded: boolean
+  ) => {
+    const userId = localStorage.getItem("userId");
+    if (!userId) return;
 
-    // Calculate total spending
-    const totalSpending = spendingTransactions.reduce(
-      (sum, t) => sum + t.amount,
-      0
-    );
-
-    // Calculate date range for monthly average
-    const dates = spendingTransactions.map((t) => new Date(t.date));
-    const earliestDate = new Date(Math.min(...dates.map((d) => d.getTime())));
-    const latestDate = new Date(Math.max(...dates.map((d) => d.getTime())));
-    const monthsDiff = Math.max(
-      1,
-      (latestDate.getFullYear() - earliestDate.getFullYear()) * 12 +
-        (latestDate.getMonth() - earliestDate.getMonth()) +
-        1
-    );
-    const monthlyAverage = totalSpending / monthsDiff;
-
-    // Category analysis
-    const categoryTotals: { [key: string]: { amount: number; count: number } } =
-      {};
-
-    spendingTransactions.forEach((transaction) => {
-      const category = transaction.category?.[0] || "Other";
-      if (!categoryTotals[category]) {
-        categoryTotals[category] = { amount: 0, count: 0 };
+    try {
+      const response = await fetch("/api/users/transactions", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          userId,
+          transactionId,
+          excluded: isExcluded,
+        }),
+      });
+      if (response.ok) {
+        loadUserDataAndAnalysis();
       }
-      categoryTotals[category].amount += transaction.amount;
-      categoryTotals[category].count += 1;
-    });
-
-    // Sort categories by spending amount
-    const categoryBreakdown = Object.entries(categoryTotals)
-      .map(([category, data]) => ({
-        category,
-        amount: data.amount,
-        percentage: (data.amount / totalSpending) * 100,
-        count: data.count,
-      }))
-      .sort((a, b) => b.amount - a.amount);
-
-    const topCategory = categoryBreakdown[0] || {
-      category: "No Data",
-      amount: 0,
-      percentage: 0,
-    };
-
-    // Monthly trends
-    const monthlyTotals: { [key: string]: number } = {};
-    spendingTransactions.forEach((transaction) => {
-      const monthKey = new Date(transaction.date).toISOString().slice(0, 7); // YYYY-MM
-      monthlyTotals[monthKey] =
-        (monthlyTotals[monthKey] || 0) + transaction.amount;
-    });
-
-    const monthlyTrends = Object.entries(monthlyTotals)
-      .map(([month, amount]) => ({ month, amount }))
-      .sort((a, b) => a.month.localeCompare(b.month))
-      .slice(-6); // Last 6 months
-
-    // Recent transactions (last 10)
-    const recentTransactions = spendingTransactions
-      .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
-      .slice(0, 10);
-
-    return {
-      totalSpending,
-      monthlyAverage,
-      topCategory,
-      categoryBreakdown: categoryBreakdown.slice(0, 8), // Top 8 categories
-      monthlyTrends,
-      recentTransactions,
-    };
+    } catch (error) {
+      console.error("Error updating transaction exclusion:", error);
+    }
   };
 
   const formatCurrency = (amount: number) => {
@@ -301,13 +281,28 @@ export default function AnalysisPage() {
               Insights from {transactions.length} transactions across{" "}
               {connections.length} account{connections.length !== 1 ? "s" : ""}
             </p>
+            {outsideWindow > 0 && (
+              <p className="text-sm text-gray-500 mt-1">
+                {outsideWindow} older transaction
+                {outsideWindow !== 1 ? "s are" : " is"} outside the 12 months
+                analyzed
+              </p>
+            )}
+          </div>
+          <div className="flex items-center gap-2">
+            <Link
+              href="/simulator"
+              className="px-4 py-2 bg-white border border-blue-500 text-blue-600 rounded-lg hover:bg-blue-50 transition-colors"
+            >
+              What-if Simulator
+            </Link>
+            <Link
+              href="/connect"
+              className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors"
+            >
+              Manage Connections
+            </Link>
           </div>
-          <Link
-            href="/connect"
-            className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors"
-          >
-            Manage Connections
-          </Link>
         </div>
       </div>
 
@@ -393,7 +388,7 @@ export default function AnalysisPage() {
                   </svg>
                 </div>
               </div>
-              <p className="text-lg font-bold text-purple-900">
+              <p className="text-lg font-bold text-purple-900 capitalize">
                 {analysis.topCategory.category}
               </p>
               <p className="text-sm text-purple-700">
@@ -425,7 +420,7 @@ export default function AnalysisPage() {
                           }, 65%, 55%)`,
                         }}
                       ></div>
-                      <span className="text-sm font-medium text-gray-700">
+                      <span className="text-sm font-medium text-gray-700 capitalize">
                         {category.category}
                       </span>
                     </div>
@@ -531,8 +526,31 @@ export default function AnalysisPage() {
                       </td>
                       <td className="py-2 px-3">
                         <span className="bg-gray-100 px-2 py-1 rounded text-xs text-gray-600">
-                          {transaction.category?.[0] || "Other"}
+                          {formatCategory(toRewardCategory(transaction))}
                         </span>
+                        <button
+                          onClick={() =>
+                            setRuleForm({
+                              ...EMPTY_RULE,
+                              pattern: transaction.name.toLowerCase(),
+                              category: toRewardCategory(transaction),
+                            })
+                          }
+                          className="ml-2 text-xs text-blue-600 hover:text-blue-800"
+                        >
+                          Recategorize
+                        </button>
+                        <button
+                          onClick={() =>
+                            setTransactionExcluded(
+                              transaction.transaction_id,
+                              true
+                            )
+                          }
+                          className="ml-2 text-xs text-gray-500 hover:text-gray-700"
+                        >
+                          Exclude
+                        </button>
                       </td>
                       <td className="py-2 px-3 text-right font-mono font-semibold text-red-600">
                         {formatCurrency(transaction.amount)}
@@ -544,6 +562,195 @@ export default function AnalysisPage() {
             </div>
           </div>
 
+          {/* Excluded Transactions */}
+          {excluded.length > 0 && (
+            <div className="bg-white border rounded-xl p-6 mt-8">
+              <h3 className="text-lg font-semibold mb-1">
+                🚫 Not Counted as Spending
+              </h3>
+              <p className="text-sm text-gray-600 mb-4">
+                Transfers, card payments and refunded purchases would otherwise
+                be counted twice. Put back anything we got wrong.
+              </p>
+              <div className="space-y-2">
+                {excluded.map(({ transaction, reason }) => (
+                  <div
+                    key={transaction.transaction_id}
+                    className="bg-gray-50 rounded-lg px-3 py-2 flex items-center justify-between text-sm"
+                  >
+                    <span>
+                      <span className="font-medium text-gray-900">
+                        {transaction.name}
+                      </span>{" "}
+                      <span className="text-gray-500">
+                        · {new Date(transaction.date).toLocaleDateString()} ·{" "}
+                        {formatCurrency(transaction.amount)} ·{" "}
+                        {EXCLUSION_LABELS[reason]}
+                      </span>
+                    </span>
+                    <button
+                      onClick={() =>
+                        setTransactionExcluded(
+                          transaction.transaction_id,
+                          false
+                        )
+                      }
+                      className="text-blue-600 hover:text-blue-800"
+                    >
+                      Count as spending
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Category Rules */}
+          <div className="bg-white border rounded-xl p-6 mt-8">
+            <h3 className="text-lg font-semibold mb-1">🏷️ Category Rules</h3>
+            <p className="text-sm text-gray-600 mb-4">
+              Issuers don&apos;t always code merchants the way Plaid does.
+              Transactions whose merchant name contains the pattern (and fall
+              within the amount range and account, if set) count toward the
+              category you pick, in this analysis and in recommendations.
+            </p>
+
+            {ruleError && (
+              <p className="text-red-700 text-sm mb-3">{ruleError}</p>
+            )}
+
+            <div className="grid md:grid-cols-5 gap-3 text-sm mb-4">
+              <label className="flex flex-col gap-1 md:col-span-2">
+                Merchant contains
+                <input
+                  type="text"
+                  value={ruleForm.pattern}
+                  onChange={(e) =>
+                    setRuleForm({ ...ruleForm, pattern: e.target.value })
+                  }
+                  placeholder="e.g. uber eats"
+                  className="border rounded px-2 py-1"
+                />
+              </label>
+              <label className="flex flex-col gap-1">
+                Category
+                <select
+                  value={ruleForm.category}
+                  onChange={(e) =>
+                    setRuleForm({
+                      ...ruleForm,
+                      category: e.target.value as RewardCategory,
+                    })
+                  }
+                  className="border rounded px-2 py-1 capitalize"
+                >
+                  {categories.map((category) => (
+                    <option key={category} value={category}>
+                      {formatCategory(category)}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="flex flex-col gap-1">
+                Min amount
+                <input
+                  type="number"
+                  min={0}
+                  value={ruleForm.min_amount}
+                  onChange={(e) =>
+                    setRuleForm({ ...ruleForm, min_amount: e.target.value })
+                  }
+                  className="border rounded px-2 py-1"
+                />
+              </label>
+              <label className="flex flex-col gap-1">
+                Max amount
+                <input
+                  type="number"
+                  min={0}
+                  value={ruleForm.max_amount}
+                  onChange={(e) =>
+                    setRuleForm({ ...ruleForm, max_amount: e.target.value })
+                  }
+                  className="border rounded px-2 py-1"
+                />
+              </label>
+              <label className="flex flex-col gap-1 md:col-span-2">
+                Account
+                <select
+                  value={ruleForm.account_id}
+                  onChange={(e) =>
+                    setRuleForm({ ...ruleForm, account_id: e.target.value })
+                  }
+                  className="border rounded px-2 py-1"
+                >
+                  <option value="">Any account</option>
+                  {connections.flatMap((connection) =>
+                    connection.accounts.map((account) => (
+                      <option
+                        key={account.account_id}
+                        value={account.account_id}
+                      >
+                        {connection.institution_name} · {account.name}
+                        {account.mask && ` ••${account.mask}`}
+                      </option>
+                    ))
+                  )}
+                </select>
+              </label>
+            </div>
+            <button
+              onClick={() => saveCategoryRule("POST", ruleForm)}
+              disabled={!ruleForm.pattern.trim()}
+              className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 disabled:opacity-50 text-sm"
+            >
+              Add rule
+            </button>
+
+            <div className="space-y-2 mt-6">
+              {rules.map((rule) => (
+                <div
+                  key={rule.id}
+                  className="bg-gray-50 rounded-lg px-3 py-2 flex items-center justify-between text-sm"
+                >
+                  <span>
+                    &ldquo;{rule.pattern}&rdquo; →{" "}
+                    <span className="font-medium capitalize">
+                      {formatCategory(rule.category)}
+                    </span>
+                    <span className="text-gray-500">
+                      {typeof rule.min_amount === "number" &&
+                        ` · from ${formatCurrency(rule.min_amount)}`}
+                      {typeof rule.max_amount === "number" &&
+                        ` · up to ${formatCurrency(rule.max_amount)}`}
+                      {rule.account_id && " · one account"}
+                    </span>
+                  </span>
+                  <button
+                    onClick={() =>
+                      saveCategoryRule("DELETE", { ruleId: rule.id })
+                    }
+                    className="text-red-600 hover:text-red-800"
+                  >
+                    Delete
+                  </button>
+                </div>
+              ))}
+              {adminRules.map((rule) => (
+                <div
+                  key={rule.id}
+                  className="rounded-lg px-3 py-2 text-sm text-gray-500"
+                >
+                  &ldquo;{rule.pattern}&rdquo; →{" "}
+                  <span className="capitalize">
+                    {formatCategory(rule.category)}
+                  </span>{" "}
+                  · default{rule.note && `: ${rule.note}`}
+                </div>
+              ))}
+            </div>
+          </div>
+
           {/* Connected Accounts Summary */}
           <div className="bg-gray-50 border rounded-xl p-6 mt-8">
             <h3 className="text-lg font-semibold mb-4">
@@ -0,0 +1,286 @@
+import { NextRequest, NextResponse } from "next/server";
+import { storage } from "@/lib/storage";
+import {
+  analyzeCsv,
+  detectCsvSignConvention,
+  detectDateFormat,
+  isDateFormat,
+  toCsvTransactions,
+  DATE_FORMATS,
+  type CsvColumnMapping,
+} from "@/lib/csv-import";
+import { isSignConvention, SIGN_CONVENTIONS } from "@/lib/sign-convention";
+import {
+  removeStoredTransactions,
+  storeTransactions,
+} from "@/lib/transaction-store";
+
+const REQUIRED_COLUMNS = ["date", "description"] as const;
+const OPTIONAL_COLUMNS = [
+  "amount",
+  "debit",
+  "credit",
+  "category",
+  "account",
+] as const;
+// Parsed rows and row errors returned when previewing
+const PREVIEW_ROWS = 10;
+
+// Check a column mapping from the request against the file's columns, or
+// return an error message
+function parseMapping(
+  value: unknown,
+  columnCount: number
+): CsvColumnMapping | string {
+  if (!value || typeof value !== "object") {
+    return "mapping must be an object";
+  }
+  const body = value as Record<string, unknown>;
+  const isColumn = (index: unknown): index is number =>
+    Number.isInteger(index) &&
+    (index as number) >= 0 &&
+    (index as number) < columnCount;
+
+  for (const field of REQUIRED_COLUMNS) {
+    if (!isColumn(body[field])) {
+      return `mapping.${field} must be a column index`;
+    }
+  }
+  for (const field of OPTIONAL_COLUMNS) {
+    if (body[field] != null && !isColumn(body[field])) {
+      return `mapping.${field} must be a column index or null`;
+    }
+  }
+  if (body.amount == null && body.debit == null && body.credit == null) {
+    return "mapping needs an amount column or debit and credit columns";
+  }
+
+  return {
+    date: body.date as number,
+    description: body.description as number,
+    // A single amount column wins over debit and credit columns
+    amount: (body.amount as number | null) ?? null,
+    debit: body.amount == null ? ((body.debit as number | null) ?? null) : null,
+    credit:
+      body.amount == null ? ((body.credit as number | null) ?? null) : null,
+    category: (body.category as number | null) ?? null,
+    account: (body.account as number | null) ?? null,
+  };
+}
+
+// GET /api/import/csv - A user's CSV imports
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const userId = searchParams.get("userId");
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: "userId parameter required" },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      imports: storage
+        .getCsvImportsByUserId(userId)
+        .sort((a, b) => b.created_at.localeCompare(a.created_at)),
+    });
+  } catch (error) {
+    console.error("CSV import GET error:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch CSV imports" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/import/csv - Preview a CSV file's detected layout, or import it
+// with commit: true. mapping, dateFormat and signConvention override what
+// was detected.
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { userId, csv, fileName = "transactions.csv", commit } = body;
+
+    if (!userId || typeof csv !== "string" || !csv.trim()) {
+      return NextResponse.json(
+        { error: "userId and csv are required" },
+        { status: 400 }
+      );
+    }
+
+    if (!storage.getUserById(userId)) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    const analysis = analyzeCsv(csv);
+    if (analysis.dataRows.length === 0) {
+      return NextResponse.json(
+        { error: "The file has no transaction rows" },
+        { status: 400 }
+      );
+    }
+
+    let mapping = analysis.mapping;
+    let dateFormat = analysis.dateFormat;
+    let signConvention = analysis.signConvention;
+    if (body.mapping !== undefined) {
+      const requested = parseMapping(body.mapping, analysis.headers.length);
+      if (typeof requested === "string") {
+        return NextResponse.json({ error: requested }, { status: 400 });
+      }
+      mapping = requested;
+      dateFormat = detectDateFormat(
+        analysis.dataRows.map((row) => row[requested.date] || "")
+      );
+      signConvention = detectCsvSignConvention(analysis.dataRows, requested);
+    }
+
+    if (body.dateFormat !== undefined) {
+      if (
+        typeof body.dateFormat !== "string" ||
+        !isDateFormat(body.dateFormat)
+      ) {
+        return NextResponse.json(
+          { error: `dateFormat must be one of: ${DATE_FORMATS.join(", ")}` },
+          { status: 400 }
+        );
+      }
+      dateFormat = body.dateFormat;
+    }
+
+    // Debit and credit columns fix the direction; a single amount column
+    // can be read either way
+    if (body.signConvention !== undefined && mapping?.amount != null) {
+      if (
+        typeof body.signConvention !== "string" ||
+        !isSignConvention(body.signConvention) ||
+        body.signConvention === "debit_credit"
+      ) {
+        return NextResponse.json(
+          {
+            error: `signConvention must be one of: ${SIGN_CONVENTIONS.filter(
+              (convention) => convention !== "debit_credit"
+            ).join(", ")}`,
+          },
+          { status: 400 }
+        );
+      }
+      signConvention = body.signConvention;
+    }
+
+    const parsed =
+      mapping && dateFormat && signConvention
+        ? toCsvTransactions(
+            analysis,
+            mapping,
+            dateFormat,
+            signConvention,
+            fileName
+          )
+        : { transactions: [], errors: [] };
+
+    if (!commit) {
+      return NextResponse.json({
+        headers: analysis.headers,
+        header_row: analysis.headerRow,
+        mapping,
+        date_format: dateFormat,
+        date_formats: DATE_FORMATS,
+        sign_convention: signConvention,
+        row_count: analysis.dataRows.length,
+        sample_rows: analysis.dataRows.slice(0, PREVIEW_ROWS),
+        transactions: parsed.transactions.slice(0, PREVIEW_ROWS),
+        valid_rows: parsed.transactions.length,
+        errors: parsed.errors.slice(0, PREVIEW_ROWS),
+        error_count: parsed.errors.length,
+      });
+    }
+
+    if (!mapping || !dateFormat || !signConvention) {
+      return NextResponse.json(
+        {
+          error:
+            "Couldn't detect the date, description and amount columns or the date format; map them before importing",
+        },
+        { status: 400 }
+      );
+    }
+
+    if (parsed.transactions.length === 0) {
+      return NextResponse.json(
+        { error: "No rows could be read with this mapping" },
+        { status: 400 }
+      );
+    }
+
+    const csvImport = storage.addCsvImport({
+      user_id: userId,
+      file_name: fileName,
+      mapping,
+      date_format: dateFormat,
+      sign_convention: signConvention,
+      row_count: analysis.dataRows.length,
+      added: 0,
+      updated: 0,
+      duplicates: 0,
+      skipped_rows: parsed.errors.length,
+    });
+    const result = storeTransactions(
+      userId,
+      "csv",
+      parsed.transactions,
+      csvImport.id
+    );
+
+    return NextResponse.json({
+      success: true,
+      import: storage.updateCsvImport(csvImport.id, result),
+      errors: parsed.errors.slice(0, PREVIEW_ROWS),
+      message: `Imported ${result.added} new transactions from ${fileName}`,
+    });
+  } catch (error) {
+    console.error("CSV import POST error:", error);
+    return NextResponse.json(
+      { error: "Failed to import CSV file" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/import/csv - Remove an import and the transactions it added
+export async function DELETE(request: NextRequest) {
+  try {
+    const { importId } = await request.json();
+
+    if (!importId) {
+      return NextResponse.json(
+        { error: "importId is required" },
+        { status: 400 }
+      );
+    }
+
+    const csvImport = storage.getCsvImportById(importId);
+    if (!csvImport) {
+      return NextResponse.json({ error: "Import not found" }, { status: 404 });
+    }
+
+    const removed = removeStoredTransactions(
+      csvImport.user_id,
+      storage
+        .getTransactionsByUserId(csvImport.user_id)
+        .filter((transaction) => transaction.item_id === importId)
+        .map((transaction) => transaction.transaction_id)
+    );
+    storage.deleteCsvImport(importId);
+
+    return NextResponse.json({ success: true, removed });
+  } catch (error) {
+    console.error("CSV import DELETE error:", error);
+    return NextResponse.json(
+      { error: "Failed to remove CSV import" },
+      { status: 500 }
+    );
+  }
+}
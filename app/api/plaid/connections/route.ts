@@ -48,6 +48,56 @@ export async function GET(request: NextRequest) {
   }
 }
 
+// PUT /api/plaid/connections - Re-check a connection with Plaid, e.g. after
+// the user fixed it through Link update mode
+export async function PUT(request: NextRequest) {
+  try {
+    const { itemId } = await request.json();
+
+    if (!itemId) {
+      return NextResponse.json(
+        { error: "itemId is required" },
+        { status: 400 }
+      );
+    }
+
+    const connection = storage.getConnectionByItemId(itemId);
+    if (!connection) {
+      return NextResponse.json(
+        { error: "Connection not found" },
+        { status: 404 }
+      );
+    }
+
+    const itemResponse = await plaidClient.itemGet({
+      access_token: connection.access_token,
+    });
+    const { item } = itemResponse.data;
+
+    const updated = item.error
+      ? storage.recordConnectionError(itemId, item.error.error_code)
+      : storage.updatePlaidConnection(itemId, {
+          status: "healthy",
+          item_error: null,
+          consent_expires_at: item.consent_expiration_time,
+        });
+
+    return NextResponse.json({
+      success: true,
+      item_id: itemId,
+      institution_name: updated?.institution_name,
+      status: updated?.status,
+      item_error: updated?.item_error,
+    });
+  } catch (error) {
+    console.error("Connections PUT error:", error);
+    return NextResponse.json(
+      { error: "Failed to refresh connection" },
+      { status: 500 }
+    );
+  }
+}
+
 // DELETE /api/plaid/connections - Remove a Plaid connection
 export async function DELETE(request: NextRequest) {
   try {
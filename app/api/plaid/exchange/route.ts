@@ -60,6 +60,43 @@ export async function POST(request: NextRequest) {
       // Continue without institution details
     }
 
+    // Linking a bank that's already connected creates a second item for the
+    // same accounts; drop it and point the user at fixing the existing one.
+    // A revoked connection can't be fixed, so linking it again is allowed.
+    const duplicate =
+      userId && institutionId
+        ? storage
+            .getConnectionsByUserId(userId)
+            .find(
+              (conn) =>
+                conn.status !== "revoked" &&
+                conn.institution_id === institutionId &&
+                conn.accounts.some((account) =>
+                  accounts.some(
+                    (linked) =>
+                      linked.name === account.name &&
+                      linked.mask === account.mask
+                  )
+                )
+            )
+        : undefined;
+
+    if (duplicate) {
+      try {
+        await plaidClient.itemRemove({ access_token: access_token });
+      } catch (error) {
+        console.error("Error removing duplicate item:", error);
+      }
+
+      return NextResponse.json(
+        {
+          error: `${institutionName} is already connected. Use Fix connection to log in again.`,
+          item_id: duplicate.item_id,
+        },
+        { status: 409 }
+      );
+    }
+
     // Ensure user exists or create one
     let user = userId ? storage.getUserById(userId) : null;
     if (!user) {
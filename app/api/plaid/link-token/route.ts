@@ -1,18 +1,39 @@
 import { NextRequest, NextResponse } from "next/server";
 import { plaidClient } from "@/lib/plaid";
-import { CountryCode, Products } from "plaid";
+import { storage } from "@/lib/storage";
+import { CountryCode, Products, type LinkTokenCreateRequest } from "plaid";
 
 export async function POST(request: NextRequest) {
   try {
-    const { userId } = await request.json();
+    const { userId, itemId } = await request.json();
 
-    const response = await plaidClient.linkTokenCreate({
+    const linkTokenRequest: LinkTokenCreateRequest = {
       user: { client_user_id: userId },
       client_name: "Credit Card App",
-      products: [Products.Transactions],
       country_codes: [CountryCode.Us],
       language: "en",
-    });
+      // Where Plaid sends transaction updates and item errors
+      ...(process.env.PLAID_WEBHOOK_URL && {
+        webhook: process.env.PLAID_WEBHOOK_URL,
+      }),
+    };
+
+    if (itemId) {
+      // Update mode: re-authenticate an existing item instead of creating a
+      // new one, so its connection and stored transactions are kept
+      const connection = storage.getConnectionByItemId(itemId);
+      if (!connection || connection.user_id !== userId) {
+        return NextResponse.json(
+          { error: "Connection not found" },
+          { status: 404 }
+        );
+      }
+      linkTokenRequest.access_token = connection.access_token;
+    } else {
+      linkTokenRequest.products = [Products.Transactions];
+    }
+
+    const response = await plaidClient.linkTokenCreate(linkTokenRequest);
 
     return NextResponse.json({ link_token: response.data.link_token });
   } catch (error: any) {
@@ -1,30 +1,30 @@
 import { NextRequest, NextResponse } from "next/server";
-import { plaidClient } from "@/lib/plaid";
-import { storage } from "@/lib/storage";
+import { storage, type PlaidConnection } from "@/lib/storage";
+import { applyCategoryRules } from "@/lib/category-rules";
+import { classifyUncategorized } from "@/lib/merchant-classifier";
+import { getStoredUserTransactions } from "@/lib/transaction-store";
+import { syncConnectionTransactions } from "@/lib/transactions";
 
 export async function POST(request: NextRequest) {
   try {
     const { userId, itemId, accessToken, months = 12 } = await request.json();
 
-    let finalAccessToken = accessToken;
-
-    // If no access token provided, try to get it from storage
-    if (!finalAccessToken) {
-      if (itemId) {
-        const connection = storage.getConnectionByItemId(itemId);
-        if (connection) {
-          finalAccessToken = connection.access_token;
-        }
-      } else if (userId) {
-        const connections = storage.getConnectionsByUserId(userId);
-        if (connections.length > 0) {
-          // Use the most recent connection
-          finalAccessToken = connections[connections.length - 1].access_token;
-        }
-      }
+    // The sync cursor lives on the stored connection, so find it from the
+    // itemId, the access token, or the user's most recent connection
+    let connection: PlaidConnection | null = null;
+    if (itemId) {
+      connection = storage.getConnectionByItemId(itemId);
+    } else if (accessToken) {
+      connection =
+        storage
+          .getPlaidConnections()
+          .find((conn) => conn.access_token === accessToken) || null;
+    } else if (userId) {
+      const connections = storage.getConnectionsByUserId(userId);
+      connection = connections[connections.length - 1] || null;
     }
 
-    if (!finalAccessToken) {
+    if (!connection) {
       return NextResponse.json(
         {
           error:
@@ -34,40 +34,26 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Calculate date range
-    const endDate = new Date().toISOString().split("T")[0];
-    const startDate = new Date();
-    startDate.setMonth(startDate.getMonth() - months);
+    // Pull changes since the last sync into the transaction store
+    const sync = await syncConnectionTransactions(connection);
 
-    const response = await plaidClient.transactionsGet({
-      access_token: finalAccessToken,
-      start_date: startDate.toISOString().split("T")[0],
-      end_date: endDate,
-      options: {
-        count: 500,
-      },
-    });
+    const stored = getStoredUserTransactions(connection.user_id, months).filter(
+      (transaction) => transaction.item_id === connection.item_id
+    );
 
-    // Update last synced timestamp if we have itemId
-    if (itemId) {
-      storage.updateLastSynced(itemId);
-    } else {
-      // Try to find itemId from access token by checking stored connections
-      const connections = storage.getPlaidConnections();
-      const connection = connections.find(
-        (conn) => conn.access_token === finalAccessToken
-      );
-      if (connection) {
-        storage.updateLastSynced(connection.item_id);
-      }
-    }
+    // Classify merchants Plaid left uncategorized, then apply the user's
+    // merchant rules so analysis sees their categories
+    const transactions = applyCategoryRules(
+      await classifyUncategorized(stored),
+      storage.getCategoryRulesByUserId(connection.user_id)
+    );
 
     return NextResponse.json({
       success: true,
-      transactions: response.data.transactions,
-      accounts: response.data.accounts,
-      total_transactions: response.data.total_transactions,
-      request_id: response.data.request_id,
+      transactions,
+      accounts: connection.accounts,
+      total_transactions: transactions.length,
+      sync,
     });
   } catch (error: any) {
     console.error("Transactions error:", error.response?.data || error.message);
@@ -75,7 +61,10 @@ export async function POST(request: NextRequest) {
     // Handle specific Plaid errors
     if (error.response?.data?.error_code === "ITEM_LOGIN_REQUIRED") {
       return NextResponse.json(
-        { error: "Bank login required. Please reconnect your account." },
+        {
+          error:
+            "Bank login required. Use Fix connection on the connect page to log in again.",
+        },
         { status: 401 }
       );
     }
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  handlePlaidWebhook,
+  verifyPlaidWebhook,
+  type PlaidWebhook,
+} from "@/lib/plaid-webhooks";
+
+export async function POST(request: NextRequest) {
+  try {
+    // The signature covers the exact bytes Plaid sent, so read the raw body
+    const body = await request.text();
+    const verified = await verifyPlaidWebhook(
+      body,
+      request.headers.get("plaid-verification")
+    );
+
+    if (!verified) {
+      return NextResponse.json(
+        { error: "Invalid webhook signature" },
+        { status: 401 }
+      );
+    }
+
+    const webhook: PlaidWebhook = JSON.parse(body);
+    const result = await handlePlaidWebhook(webhook);
+    console.log(
+      `Plaid webhook ${webhook.webhook_type}/${webhook.webhook_code} for ${webhook.item_id}: ${result.message}`
+    );
+
+    return NextResponse.json({ received: true, ...result });
+  } catch (error) {
+    console.error("Plaid webhook POST error:", error);
+    return NextResponse.json(
+      { error: "Failed to process webhook" },
+      { status: 500 }
+    );
+  }
+}
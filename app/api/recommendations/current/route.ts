@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getCurrentCards,
+  isContextError,
+  loadRecommendationContext,
+} from "@/lib/recommendation-context";
+import { compareWithCurrentCards } from "@/lib/current-cards";
+import { filterApprovableCards } from "@/lib/issuer-rules";
+import { parseMonthsParam } from "@/lib/transaction-store";
+
+// GET /api/recommendations/current - Compare the user's current cards with
+// the catalog
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const userId = searchParams.get("userId");
+    const months = parseMonthsParam(searchParams.get("months"));
+    const limit = parseInt(searchParams.get("limit") || "10", 10);
+
+    if (months === null) {
+      return NextResponse.json(
+        { error: "months must be a positive whole number" },
+        { status: 400 }
+      );
+    }
+
+    const context = await loadRecommendationContext(userId, months);
+    if (isContextError(context)) {
+      return NextResponse.json(
+        { error: context.error, connection_errors: context.connectionErrors },
+        { status: context.status }
+      );
+    }
+
+    const {
+      catalog,
+      cards,
+      transactions,
+      spend,
+      rewardOptions,
+      cardHistory,
+      connectionErrors,
+    } = context;
+    const currentCards = getCurrentCards(userId!, catalog.creditCards);
+    const held = new Set(currentCards.map((current) => current.card_name));
+    const approvable = filterApprovableCards(cards, cardHistory);
+
+    // Held cards stay in the pool even if the user couldn't get them today
+    const comparison = compareWithCurrentCards(
+      currentCards,
+      catalog.creditCards.filter(
+        (card) => held.has(card.name) || approvable.includes(card)
+      ),
+      transactions,
+      spend,
+      rewardOptions
+    );
+
+    return NextResponse.json({
+      success: true,
+      user_id: userId,
+      current_cards: comparison.currentCards,
+      current_wallet: comparison.currentWallet,
+      comparisons: comparison.comparisons.slice(0, limit),
+      catalog_cards: catalog.creditCards.map((card) => card.name),
+      connection_errors: connectionErrors,
+    });
+  } catch (error) {
+    console.error("Current cards GET error:", error);
+    return NextResponse.json(
+      { error: "Failed to compare current cards" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getGuideWallet,
+  isContextError,
+  isWalletSource,
+  loadRecommendationContext,
+} from "@/lib/recommendation-context";
+import { buildMerchantGuide } from "@/lib/merchant-guide";
+import { parseMonthsParam } from "@/lib/transaction-store";
+
+// GET /api/recommendations/merchants - Which card to use at each of the
+// user's top merchants
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const userId = searchParams.get("userId");
+    const months = parseMonthsParam(searchParams.get("months"));
+    const limit = parseInt(searchParams.get("limit") || "20", 10);
+    const walletParam = searchParams.get("wallet") || "current";
+
+    if (months === null) {
+      return NextResponse.json(
+        { error: "months must be a positive whole number" },
+        { status: 400 }
+      );
+    }
+
+    if (!isWalletSource(walletParam)) {
+      return NextResponse.json(
+        { error: "wallet must be current or recommended" },
+        { status: 400 }
+      );
+    }
+
+    const context = await loadRecommendationContext(userId, months);
+    if (isContextError(context)) {
+      return NextResponse.json(
+        { error: context.error, connection_errors: context.connectionErrors },
+        { status: context.status }
+      );
+    }
+
+    // Falls back to the optimized wallet when the user's cards are unknown
+    const { wallet, source } = getGuideWallet(userId!, context, walletParam);
+    const { transactions, rewardOptions, connectionErrors } = context;
+
+    return NextResponse.json({
+      success: true,
+      user_id: userId,
+      wallet_source: source,
+      wallet: wallet.map((card) => ({ name: card.name, image: card.image })),
+      merchants: buildMerchantGuide(transactions, wallet, rewardOptions, limit),
+      connection_errors: connectionErrors,
+    });
+  } catch (error) {
+    console.error("Merchant guide GET error:", error);
+    return NextResponse.json(
+      { error: "Failed to build merchant guide" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  isContextError,
+  loadRecommendationContext,
+} from "@/lib/recommendation-context";
+import { buildRecommendations, getTotalSpend } from "@/lib/recommendations";
+import { isProjectionHorizon, PROJECTION_HORIZONS } from "@/lib/projection";
+import { CATEGORY_MAP_VERSION } from "@/lib/categories";
+import { parseMonthsParam } from "@/lib/transaction-store";
+
+// GET /api/recommendations - Rank catalog cards against a user's spending
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const userId = searchParams.get("userId");
+    const months = parseMonthsParam(searchParams.get("months"));
+    const limit = searchParams.get("limit");
+    const excludeIneligible = searchParams.get("excludeIneligible") === "true";
+    const horizonParam = searchParams.get("horizon");
+    const horizon = horizonParam ? parseInt(horizonParam, 10) : null;
+
+    if (months === null) {
+      return NextResponse.json(
+        { error: "months must be a positive whole number" },
+        { status: 400 }
+      );
+    }
+
+    if (horizon !== null && !isProjectionHorizon(horizon)) {
+      return NextResponse.json(
+        {
+          error: `horizon must be one of: ${PROJECTION_HORIZONS.join(", ")}`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const context = await loadRecommendationContext(userId, months);
+    if (isContextError(context)) {
+      return NextResponse.json(
+        { error: context.error, connection_errors: context.connectionErrors },
+        { status: context.status }
+      );
+    }
+
+    const {
+      catalog,
+      cards,
+      transactions,
+      spend,
+      rewardOptions,
+      cardHistory,
+      connectionErrors,
+    } = context;
+    const recommendations = buildRecommendations(
+      cards,
+      spend,
+      { ...rewardOptions, cardHistory, excludeIneligible },
+      horizon
+    );
+
+    return NextResponse.json({
+      success: true,
+      user_id: userId,
+      spend,
+      total_annual_spend: getTotalSpend(spend),
+      transaction_count: transactions.length,
+      horizon,
+      recommendations: limit
+        ? recommendations.slice(0, parseInt(limit, 10))
+        : recommendations,
+      catalog_timestamp: catalog.timestamp,
+      category_map_version: CATEGORY_MAP_VERSION,
+      connection_errors: connectionErrors,
+    });
+  } catch (error) {
+    console.error("Recommendations GET error:", error);
+    return NextResponse.json(
+      { error: "Failed to build recommendations" },
+      { status: 500 }
+    );
+  }
+}
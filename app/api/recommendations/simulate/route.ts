@@ -0,0 +1,120 @@
+import { NextRequest, NextResponse } from "next/server";
+import { storage } from "@/lib/storage";
+import { loadCardCatalog, REWARD_CATEGORIES } from "@/lib/cards";
+import {
+  getEligibleCards,
+  getRewardOptions,
+  isContextError,
+  loadRecommendationContext,
+} from "@/lib/recommendation-context";
+import { buildRecommendations, getTotalSpend } from "@/lib/recommendations";
+import {
+  parseMonthlySpend,
+  toAnnualSpend,
+  toMonthlySpend,
+} from "@/lib/scenarios";
+import { parseMonthsParam } from "@/lib/transaction-store";
+
+// GET /api/recommendations/simulate - Starting point for the simulator: the
+// user's actual monthly spend per category
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const userId = searchParams.get("userId");
+    const months = parseMonthsParam(searchParams.get("months"));
+
+    if (months === null) {
+      return NextResponse.json(
+        { error: "months must be a positive whole number" },
+        { status: 400 }
+      );
+    }
+
+    const context = await loadRecommendationContext(userId, months);
+    if (isContextError(context)) {
+      return NextResponse.json(
+        { error: context.error, connection_errors: context.connectionErrors },
+        { status: context.status }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      user_id: userId,
+      categories: REWARD_CATEGORIES,
+      monthly_spend: toMonthlySpend(context.spend),
+      connection_errors: context.connectionErrors,
+    });
+  } catch (error) {
+    console.error("Simulate GET error:", error);
+    return NextResponse.json(
+      { error: "Failed to load spending for the simulator" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/recommendations/simulate - Rank catalog cards against a
+// hypothetical monthly spend per category
+export async function POST(request: NextRequest) {
+  try {
+    const { userId, monthly_spend, limit } = await request.json();
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: "userId is required" },
+        { status: 400 }
+      );
+    }
+
+    if (!storage.getUserById(userId)) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    const monthlySpend = parseMonthlySpend(monthly_spend);
+    if (!monthlySpend) {
+      return NextResponse.json(
+        {
+          error:
+            "monthly_spend must map reward categories to non-negative amounts",
+        },
+        { status: 400 }
+      );
+    }
+
+    const catalog = loadCardCatalog();
+    if (catalog.creditCards.length === 0) {
+      return NextResponse.json(
+        { error: "Card catalog is empty. Run the NerdWallet scraper first." },
+        { status: 503 }
+      );
+    }
+
+    // Simulated spend has no dates, so it is spread evenly over the year
+    const spend = toAnnualSpend(monthlySpend);
+    const recommendations = buildRecommendations(
+      getEligibleCards(userId, catalog.creditCards),
+      spend,
+      {
+        ...getRewardOptions(userId),
+        cardHistory: storage.getCardHistoryByUserId(userId),
+      }
+    );
+
+    return NextResponse.json({
+      success: true,
+      user_id: userId,
+      spend,
+      total_annual_spend: getTotalSpend(spend),
+      recommendations: limit
+        ? recommendations.slice(0, parseInt(limit, 10))
+        : recommendations,
+    });
+  } catch (error) {
+    console.error("Simulate POST error:", error);
+    return NextResponse.json(
+      { error: "Failed to simulate recommendations" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getGuideWallet,
+  isContextError,
+  isWalletSource,
+  loadRecommendationContext,
+} from "@/lib/recommendation-context";
+import { rankWalletForSpend } from "@/lib/merchant-guide";
+import { parseMonthsParam } from "@/lib/transaction-store";
+
+// GET /api/recommendations/subscriptions - Recurring charges with their
+// monthly cost, next expected date, and the wallet card to bill them to
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const userId = searchParams.get("userId");
+    const months = parseMonthsParam(searchParams.get("months"));
+    const walletParam = searchParams.get("wallet") || "current";
+
+    if (months === null) {
+      return NextResponse.json(
+        { error: "months must be a positive whole number" },
+        { status: 400 }
+      );
+    }
+
+    if (!isWalletSource(walletParam)) {
+      return NextResponse.json(
+        { error: "wallet must be current or recommended" },
+        { status: 400 }
+      );
+    }
+
+    const context = await loadRecommendationContext(userId, months);
+    if (isContextError(context)) {
+      return NextResponse.json(
+        { error: context.error, connection_errors: context.connectionErrors },
+        { status: context.status }
+      );
+    }
+
+    const { wallet, source } = getGuideWallet(userId!, context, walletParam);
+    const { subscriptions, rewardOptions, connectionErrors } = context;
+
+    return NextResponse.json({
+      success: true,
+      user_id: userId,
+      wallet_source: source,
+      total_monthly_cost: subscriptions.reduce(
+        (sum, subscription) => sum + subscription.monthlyCost,
+        0
+      ),
+      subscriptions: subscriptions.map((subscription) => ({
+        ...subscription,
+        best_card:
+          rankWalletForSpend(
+            wallet,
+            subscription.category,
+            subscription.monthlyCost * 12,
+            rewardOptions
+          )[0] || null,
+      })),
+      connection_errors: connectionErrors,
+    });
+  } catch (error) {
+    console.error("Subscriptions GET error:", error);
+    return NextResponse.json(
+      { error: "Failed to detect subscriptions" },
+      { status: 500 }
+    );
+  }
+}
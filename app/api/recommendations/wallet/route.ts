@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  isContextError,
+  loadRecommendationContext,
+} from "@/lib/recommendation-context";
+import { optimizeWallet } from "@/lib/wallet";
+import { filterApprovableCards } from "@/lib/issuer-rules";
+import { parseMonthsParam } from "@/lib/transaction-store";
+
+// GET /api/recommendations/wallet - Best card combination for a user
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const userId = searchParams.get("userId");
+    const months = parseMonthsParam(searchParams.get("months"));
+    const walletSize = parseInt(searchParams.get("walletSize") || "2", 10);
+    const feeBudget = searchParams.get("feeBudget");
+    const annualFeeBudget = feeBudget ? parseFloat(feeBudget) : null;
+
+    if (months === null) {
+      return NextResponse.json(
+        { error: "months must be a positive whole number" },
+        { status: 400 }
+      );
+    }
+
+    if (
+      isNaN(walletSize) ||
+      (annualFeeBudget !== null && isNaN(annualFeeBudget))
+    ) {
+      return NextResponse.json(
+        { error: "walletSize and feeBudget must be numbers" },
+        { status: 400 }
+      );
+    }
+
+    const context = await loadRecommendationContext(userId, months);
+    if (isContextError(context)) {
+      return NextResponse.json(
+        { error: context.error, connection_errors: context.connectionErrors },
+        { status: context.status }
+      );
+    }
+
+    const { cards, spend, rewardOptions, cardHistory, connectionErrors } =
+      context;
+    const optimization = optimizeWallet(
+      filterApprovableCards(cards, cardHistory),
+      spend,
+      { ...rewardOptions, walletSize, annualFeeBudget }
+    );
+
+    return NextResponse.json({
+      success: true,
+      user_id: userId,
+      spend,
+      wallet: optimization.best,
+      alternatives: optimization.alternatives,
+      combinations_evaluated: optimization.combinationsEvaluated,
+      connection_errors: connectionErrors,
+    });
+  } catch (error) {
+    console.error("Wallet GET error:", error);
+    return NextResponse.json(
+      { error: "Failed to optimize wallet" },
+      { status: 500 }
+    );
+  }
+}
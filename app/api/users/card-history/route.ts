@@ -0,0 +1,196 @@
+import { NextRequest, NextResponse } from "next/server";
+import { storage, type CardHistoryUpdate } from "@/lib/storage";
+import { ISSUER_RULES } from "@/lib/issuer-rules";
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+// Dates that can be cleared with null; opened_at is always required
+const OPTIONAL_DATE_FIELDS = ["closed_at", "bonus_received_at"] as const;
+
+// Pick the editable fields out of a request body, or return an error message
+function parseHistoryFields(
+  body: Record<string, unknown>
+): CardHistoryUpdate | string {
+  const fields: CardHistoryUpdate = {};
+
+  if (body.card_name !== undefined) {
+    if (typeof body.card_name !== "string" || !body.card_name.trim()) {
+      return "card_name must be a non-empty string";
+    }
+    fields.card_name = body.card_name.trim();
+  }
+
+  if (body.issuer !== undefined) {
+    fields.issuer =
+      typeof body.issuer === "string" && body.issuer.trim()
+        ? body.issuer.trim().toLowerCase()
+        : undefined;
+  }
+
+  if (body.opened_at !== undefined) {
+    if (!DATE_PATTERN.test(String(body.opened_at))) {
+      return "opened_at must be a YYYY-MM-DD date";
+    }
+    fields.opened_at = String(body.opened_at);
+  }
+
+  for (const field of OPTIONAL_DATE_FIELDS) {
+    const value = body[field];
+    if (value === undefined) continue;
+    if (value !== null && value !== "" && !DATE_PATTERN.test(String(value))) {
+      return `${field} must be a YYYY-MM-DD date`;
+    }
+    fields[field] = value ? String(value) : null;
+  }
+
+  if (body.business !== undefined) {
+    fields.business = Boolean(body.business);
+  }
+
+  return fields;
+}
+
+// GET /api/users/card-history - A user's card openings and the issuer rules
+// they are checked against
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const userId = searchParams.get("userId");
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: "userId parameter required" },
+        { status: 400 }
+      );
+    }
+
+    if (!storage.getUserById(userId)) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      history: storage
+        .getCardHistoryByUserId(userId)
+        .sort((a, b) => b.opened_at.localeCompare(a.opened_at)),
+      rules: ISSUER_RULES,
+    });
+  } catch (error) {
+    console.error("Card history GET error:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch card history" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/users/card-history - Record a card the user opened
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { userId } = body;
+
+    if (!userId || !body.card_name || !body.opened_at) {
+      return NextResponse.json(
+        { error: "userId, card_name and opened_at are required" },
+        { status: 400 }
+      );
+    }
+
+    if (!storage.getUserById(userId)) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    const fields = parseHistoryFields(body);
+    if (typeof fields === "string") {
+      return NextResponse.json({ error: fields }, { status: 400 });
+    }
+
+    const entry = storage.addCardHistoryEntry(userId, {
+      ...fields,
+      card_name: fields.card_name!,
+      opened_at: fields.opened_at!,
+    });
+
+    return NextResponse.json({
+      entry,
+      message: "Card history entry added successfully",
+    });
+  } catch (error) {
+    console.error("Card history POST error:", error);
+    return NextResponse.json(
+      { error: "Failed to add card history entry" },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/users/card-history - Update an entry, e.g. to record a closure
+// or a bonus
+export async function PUT(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { entryId } = body;
+
+    if (!entryId) {
+      return NextResponse.json(
+        { error: "entryId is required" },
+        { status: 400 }
+      );
+    }
+
+    const fields = parseHistoryFields(body);
+    if (typeof fields === "string") {
+      return NextResponse.json({ error: fields }, { status: 400 });
+    }
+
+    const entry = storage.updateCardHistoryEntry(entryId, fields);
+    if (!entry) {
+      return NextResponse.json(
+        { error: "Card history entry not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      entry,
+      message: "Card history entry updated successfully",
+    });
+  } catch (error) {
+    console.error("Card history PUT error:", error);
+    return NextResponse.json(
+      { error: "Failed to update card history entry" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/users/card-history - Remove an entry
+export async function DELETE(request: NextRequest) {
+  try {
+    const { entryId } = await request.json();
+
+    if (!entryId) {
+      return NextResponse.json(
+        { error: "entryId is required" },
+        { status: 400 }
+      );
+    }
+
+    if (!storage.deleteCardHistoryEntry(entryId)) {
+      return NextResponse.json(
+        { error: "Card history entry not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: "Card history entry removed successfully",
+    });
+  } catch (error) {
+    console.error("Card history DELETE error:", error);
+    return NextResponse.json(
+      { error: "Failed to remove card history entry" },
+      { status: 500 }
+    );
+  }
+}
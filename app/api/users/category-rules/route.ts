@@ -0,0 +1,206 @@
+import { NextRequest, NextResponse } from "next/server";
+import { storage, type CategoryRuleUpdate } from "@/lib/storage";
+import { isRewardCategory, REWARD_CATEGORIES } from "@/lib/cards";
+import { ADMIN_CATEGORY_RULES } from "@/lib/category-rules";
+
+const AMOUNT_FIELDS = ["min_amount", "max_amount"] as const;
+
+// Pick the editable fields out of a request body, or return an error message
+function parseRuleFields(
+  body: Record<string, unknown>
+): CategoryRuleUpdate | string {
+  const fields: CategoryRuleUpdate = {};
+
+  if (body.pattern !== undefined) {
+    if (typeof body.pattern !== "string" || !body.pattern.trim()) {
+      return "pattern must be a non-empty string";
+    }
+    fields.pattern = body.pattern.trim();
+  }
+
+  if (body.category !== undefined) {
+    if (typeof body.category !== "string" || !isRewardCategory(body.category)) {
+      return `category must be one of: ${REWARD_CATEGORIES.join(", ")}`;
+    }
+    fields.category = body.category;
+  }
+
+  // Amount bounds and the account can be cleared with null or ""
+  for (const field of AMOUNT_FIELDS) {
+    const value = body[field];
+    if (value === undefined) continue;
+    if (value === null || value === "") {
+      fields[field] = null;
+      continue;
+    }
+    const amount = Number(value);
+    if (!Number.isFinite(amount) || amount < 0) {
+      return `${field} must be a non-negative number`;
+    }
+    fields[field] = amount;
+  }
+
+  if (
+    typeof fields.min_amount === "number" &&
+    typeof fields.max_amount === "number" &&
+    fields.min_amount > fields.max_amount
+  ) {
+    return "min_amount must not exceed max_amount";
+  }
+
+  if (body.account_id !== undefined) {
+    fields.account_id =
+      typeof body.account_id === "string" && body.account_id
+        ? body.account_id
+        : null;
+  }
+
+  return fields;
+}
+
+// GET /api/users/category-rules - A user's merchant rules and the admin
+// defaults applied after them
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const userId = searchParams.get("userId");
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: "userId parameter required" },
+        { status: 400 }
+      );
+    }
+
+    if (!storage.getUserById(userId)) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      rules: storage
+        .getCategoryRulesByUserId(userId)
+        .sort((a, b) => b.updated_at.localeCompare(a.updated_at)),
+      admin_rules: ADMIN_CATEGORY_RULES,
+      categories: REWARD_CATEGORIES,
+    });
+  } catch (error) {
+    console.error("Category rules GET error:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch category rules" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/users/category-rules - Add a rule that reassigns matching
+// transactions to a reward category
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { userId } = body;
+
+    if (!userId || !body.pattern || !body.category) {
+      return NextResponse.json(
+        { error: "userId, pattern and category are required" },
+        { status: 400 }
+      );
+    }
+
+    if (!storage.getUserById(userId)) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    const fields = parseRuleFields(body);
+    if (typeof fields === "string") {
+      return NextResponse.json({ error: fields }, { status: 400 });
+    }
+
+    const rule = storage.addCategoryRule(userId, {
+      ...fields,
+      pattern: fields.pattern!,
+      category: fields.category!,
+    });
+
+    return NextResponse.json({
+      rule,
+      message: "Category rule added successfully",
+    });
+  } catch (error) {
+    console.error("Category rules POST error:", error);
+    return NextResponse.json(
+      { error: "Failed to add category rule" },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/users/category-rules - Update a rule
+export async function PUT(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { ruleId } = body;
+
+    if (!ruleId) {
+      return NextResponse.json(
+        { error: "ruleId is required" },
+        { status: 400 }
+      );
+    }
+
+    const fields = parseRuleFields(body);
+    if (typeof fields === "string") {
+      return NextResponse.json({ error: fields }, { status: 400 });
+    }
+
+    const rule = storage.updateCategoryRule(ruleId, fields);
+    if (!rule) {
+      return NextResponse.json(
+        { error: "Category rule not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      rule,
+      message: "Category rule updated successfully",
+    });
+  } catch (error) {
+    console.error("Category rules PUT error:", error);
+    return NextResponse.json(
+      { error: "Failed to update category rule" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/users/category-rules - Remove a rule
+export async function DELETE(request: NextRequest) {
+  try {
+    const { ruleId } = await request.json();
+
+    if (!ruleId) {
+      return NextResponse.json(
+        { error: "ruleId is required" },
+        { status: 400 }
+      );
+    }
+
+    if (!storage.deleteCategoryRule(ruleId)) {
+      return NextResponse.json(
+        { error: "Category rule not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: "Category rule removed successfully",
+    });
+  } catch (error) {
+    console.error("Category rules DELETE error:", error);
+    return NextResponse.json(
+      { error: "Failed to remove category rule" },
+      { status: 500 }
+    );
+  }
+}
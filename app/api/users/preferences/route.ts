@@ -0,0 +1,148 @@
+import { NextRequest, NextResponse } from "next/server";
+import { storage, type UserPreferencesUpdate } from "@/lib/storage";
+import {
+  getValuationTable,
+  isValuationProfile,
+  parseValuationOverrides,
+  VALUATION_PROFILES,
+} from "@/lib/valuations";
+import { CREDIT_TIERS, isCreditTier } from "@/lib/credit-tiers";
+
+// GET /api/users/preferences - Get a user's preferences and resolved valuations
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const userId = searchParams.get("userId");
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: "userId parameter required" },
+        { status: 400 }
+      );
+    }
+
+    if (!storage.getUserById(userId)) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    const preferences = storage.getUserPreferences(userId);
+
+    return NextResponse.json({
+      preferences,
+      valuations: getValuationTable({
+        profile: preferences?.valuation_profile,
+        overrides: preferences?.valuation_overrides,
+      }),
+      valuation_profiles: VALUATION_PROFILES,
+      credit_tiers: CREDIT_TIERS,
+    });
+  } catch (error) {
+    console.error("Preferences GET error:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch preferences" },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/users/preferences - Update a user's preferences
+export async function PUT(request: NextRequest) {
+  try {
+    const {
+      userId,
+      valuation_profile,
+      valuation_overrides,
+      include_platform_rates,
+      current_cards,
+      credit_tier,
+    } = await request.json();
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: "userId is required" },
+        { status: 400 }
+      );
+    }
+
+    if (!storage.getUserById(userId)) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    const updates: UserPreferencesUpdate = {};
+
+    if (valuation_profile !== undefined) {
+      if (!isValuationProfile(valuation_profile)) {
+        return NextResponse.json(
+          {
+            error: `valuation_profile must be one of: ${VALUATION_PROFILES.join(
+              ", "
+            )}`,
+          },
+          { status: 400 }
+        );
+      }
+      updates.valuation_profile = valuation_profile;
+    }
+
+    if (valuation_overrides !== undefined) {
+      const overrides = parseValuationOverrides(valuation_overrides);
+      if (!overrides) {
+        return NextResponse.json(
+          {
+            error:
+              "valuation_overrides must give positive numbers for currencies (points, miles, cashback), programs keyed by issuer and platformBoosts",
+          },
+          { status: 400 }
+        );
+      }
+      updates.valuation_overrides = overrides;
+    }
+
+    if (include_platform_rates !== undefined) {
+      updates.include_platform_rates = Boolean(include_platform_rates);
+    }
+
+    if (current_cards !== undefined) {
+      if (
+        !Array.isArray(current_cards) ||
+        current_cards.some((card) => typeof card?.card_name !== "string")
+      ) {
+        return NextResponse.json(
+          {
+            error: "current_cards must be a list of { card_name, account_id }",
+          },
+          { status: 400 }
+        );
+      }
+      updates.current_cards = current_cards.map((card) => ({
+        card_name: card.card_name,
+        account_id: card.account_id || undefined,
+        source: "manual",
+      }));
+    }
+
+    // null clears the tier so every card is recommended again
+    if (credit_tier !== undefined) {
+      if (credit_tier !== null && !isCreditTier(credit_tier)) {
+        return NextResponse.json(
+          { error: `credit_tier must be one of: ${CREDIT_TIERS.join(", ")}` },
+          { status: 400 }
+        );
+      }
+      updates.credit_tier = credit_tier ?? undefined;
+    }
+
+    const preferences = storage.updateUserPreferences(userId, updates);
+
+    return NextResponse.json({
+      preferences,
+      message: "Preferences updated successfully",
+    });
+  } catch (error) {
+    console.error("Preferences PUT error:", error);
+    return NextResponse.json(
+      { error: "Failed to update preferences" },
+      { status: 500 }
+    );
+  }
+}
@@ -25,6 +25,7 @@ export async function GET(request: NextRequest) {
           created_at: conn.created_at,
           last_synced: conn.last_synced,
         })),
+        csv_import_count: storage.getCsvImportsByUserId(userId).length,
       });
     }
 
@@ -0,0 +1,132 @@
+import { NextRequest, NextResponse } from "next/server";
+import { storage } from "@/lib/storage";
+import { loadCardCatalog } from "@/lib/cards";
+import {
+  getEligibleCards,
+  getRewardOptions,
+} from "@/lib/recommendation-context";
+import { buildRecommendations, getTotalSpend } from "@/lib/recommendations";
+import { parseMonthlySpend, toAnnualSpend } from "@/lib/scenarios";
+
+// GET /api/users/scenarios - List a user's saved spending scenarios with the
+// top card for each, so they can be compared side by side
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const userId = searchParams.get("userId");
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: "userId parameter required" },
+        { status: 400 }
+      );
+    }
+
+    if (!storage.getUserById(userId)) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    const cards = getEligibleCards(userId, loadCardCatalog().creditCards);
+    const options = {
+      ...getRewardOptions(userId),
+      cardHistory: storage.getCardHistoryByUserId(userId),
+      excludeIneligible: true,
+    };
+
+    const scenarios = storage.getScenariosByUserId(userId).map((scenario) => {
+      const spend = toAnnualSpend(scenario.monthly_spend);
+      const [top] = buildRecommendations(cards, spend, options);
+
+      return {
+        ...scenario,
+        total_annual_spend: getTotalSpend(spend),
+        top_card: top
+          ? { name: top.name, net_annual_value: top.netAnnualValue }
+          : null,
+      };
+    });
+
+    return NextResponse.json({ scenarios });
+  } catch (error) {
+    console.error("Scenarios GET error:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch scenarios" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/users/scenarios - Save a named scenario (replaces one with the
+// same name)
+export async function POST(request: NextRequest) {
+  try {
+    const { userId, name, monthly_spend } = await request.json();
+
+    if (!userId || typeof name !== "string" || !name.trim()) {
+      return NextResponse.json(
+        { error: "userId and name are required" },
+        { status: 400 }
+      );
+    }
+
+    if (!storage.getUserById(userId)) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    const monthlySpend = parseMonthlySpend(monthly_spend);
+    if (!monthlySpend) {
+      return NextResponse.json(
+        {
+          error:
+            "monthly_spend must map reward categories to non-negative amounts",
+        },
+        { status: 400 }
+      );
+    }
+
+    const scenario = storage.saveScenario(userId, name.trim(), monthlySpend);
+
+    return NextResponse.json({
+      scenario,
+      message: "Scenario saved successfully",
+    });
+  } catch (error) {
+    console.error("Scenarios POST error:", error);
+    return NextResponse.json(
+      { error: "Failed to save scenario" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/users/scenarios - Remove a saved scenario
+export async function DELETE(request: NextRequest) {
+  try {
+    const { scenarioId } = await request.json();
+
+    if (!scenarioId) {
+      return NextResponse.json(
+        { error: "scenarioId is required" },
+        { status: 400 }
+      );
+    }
+
+    if (!storage.deleteScenario(scenarioId)) {
+      return NextResponse.json(
+        { error: "Scenario not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: "Scenario removed successfully",
+    });
+  } catch (error) {
+    console.error("Scenarios DELETE error:", error);
+    return NextResponse.json(
+      { error: "Failed to remove scenario" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from "next/server";
+import { storage } from "@/lib/storage";
+import { prepareUserTransactions } from "@/lib/transactions";
+import { parseMonthsParam } from "@/lib/transaction-store";
+
+// GET /api/users/transactions - A user's transactions across all
+// connections, categorized, with transfers, card payments and refunds
+// listed separately as excluded
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const userId = searchParams.get("userId");
+    const months = parseMonthsParam(searchParams.get("months"));
+
+    if (months === null) {
+      return NextResponse.json(
+        { error: "months must be a positive whole number" },
+        { status: 400 }
+      );
+    }
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: "userId parameter required" },
+        { status: 400 }
+      );
+    }
+
+    if (!storage.getUserById(userId)) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    const { transactions, excluded, errors, outsideWindow } =
+      await prepareUserTransactions(userId, months);
+
+    return NextResponse.json({
+      success: true,
+      user_id: userId,
+      transactions,
+      excluded,
+      outside_window: outsideWindow,
+      connection_errors: errors,
+    });
+  } catch (error) {
+    console.error("User transactions GET error:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch transactions" },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/users/transactions - Correct exclusion detection for one
+// transaction: excluded true or false, or null to go back to automatic
+export async function PUT(request: NextRequest) {
+  try {
+    const { userId, transactionId, excluded } = await request.json();
+
+    if (!userId || !transactionId) {
+      return NextResponse.json(
+        { error: "userId and transactionId are required" },
+        { status: 400 }
+      );
+    }
+
+    if (excluded !== null && typeof excluded !== "boolean") {
+      return NextResponse.json(
+        { error: "excluded must be true, false or null" },
+        { status: 400 }
+      );
+    }
+
+    if (!storage.getUserById(userId)) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    if (excluded === null) {
+      storage.clearTransactionExclusion(userId, transactionId);
+    } else {
+      storage.setTransactionExclusion(userId, transactionId, excluded);
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: "Transaction exclusion updated successfully",
+    });
+  } catch (error) {
+    console.error("User transactions PUT error:", error);
+    return NextResponse.json(
+      { error: "Failed to update transaction exclusion" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,273 @@
+"use client";
+import { useState, useEffect } from "react";
+import Link from "next/link";
+import type { CardHistoryEntry } from "@/lib/storage";
+import type { IssuerRule } from "@/lib/issuer-rules";
+
+const EMPTY_FORM = {
+  card_name: "",
+  opened_at: "",
+  closed_at: "",
+  bonus_received_at: "",
+  business: false,
+};
+
+export default function CardHistoryPage() {
+  const [history, setHistory] = useState<CardHistoryEntry[]>([]);
+  const [rules, setRules] = useState<IssuerRule[]>([]);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    loadHistory();
+  }, []);
+
+  const loadHistory = async () => {
+    const userId = localStorage.getItem("userId");
+
+    if (!userId) {
+      setError("No user found. Please connect your bank account first.");
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/users/card-history?userId=${userId}`);
+      const result = await response.json();
+
+      if (!response.ok) {
+        setError(result.error || "Failed to load card history");
+        return;
+      }
+
+      setHistory(result.history);
+      setRules(result.rules);
+    } catch (error) {
+      console.error("Error loading card history:", error);
+      setError("Failed to load card history. Please try again.");
+    }
+  };
+
+  const addEntry = async () => {
+    const userId = localStorage.getItem("userId");
+    if (!userId) return;
+
+    try {
+      const response = await fetch("/api/users/card-history", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ userId, ...form }),
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        setError(result.error || "Failed to add card");
+        return;
+      }
+
+      setForm(EMPTY_FORM);
+      setError("");
+      loadHistory();
+    } catch (error) {
+      console.error("Error adding card history entry:", error);
+    }
+  };
+
+  const updateEntry = async (
+    entryId: string,
+    updates: Partial<CardHistoryEntry>
+  ) => {
+    try {
+      const response = await fetch("/api/users/card-history", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ entryId, ...updates }),
+      });
+      if (response.ok) {
+        loadHistory();
+      }
+    } catch (error) {
+      console.error("Error updating card history entry:", error);
+    }
+  };
+
+  const deleteEntry = async (entryId: string) => {
+    try {
+      const response = await fetch("/api/users/card-history", {
+        method: "DELETE",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ entryId }),
+      });
+      if (response.ok) {
+        loadHistory();
+      }
+    } catch (error) {
+      console.error("Error deleting card history entry:", error);
+    }
+  };
+
+  const today = new Date().toISOString().slice(0, 10);
+
+  return (
+    <div className="p-8 max-w-4xl mx-auto">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-8">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">
+            🗂️ Card History
+          </h1>
+          <p className="text-gray-600">
+            Cards you&apos;ve opened, so we can skip ones issuers won&apos;t
+            approve or pay a bonus on.
+          </p>
+        </div>
+        <Link
+          href="/recommendations"
+          className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors"
+        >
+          Recommendations
+        </Link>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 p-4 rounded-lg mb-6">
+          <p className="text-red-800 text-sm">{error}</p>
+        </div>
+      )}
+
+      {/* Add a card */}
+      <div className="bg-white border rounded-xl p-6 mb-8">
+        <h2 className="text-xl font-semibold text-gray-900 mb-4">
+          Add a card
+        </h2>
+        <div className="grid md:grid-cols-2 gap-4 text-sm">
+          <label className="flex flex-col gap-1 md:col-span-2">
+            Card name
+            <input
+              type="text"
+              value={form.card_name}
+              onChange={(e) => setForm({ ...form, card_name: e.target.value })}
+              placeholder="e.g. Chase Sapphire Preferred"
+              className="border rounded px-2 py-1"
+            />
+          </label>
+          <label className="flex flex-col gap-1">
+            Opened
+            <input
+              type="date"
+              value={form.opened_at}
+              onChange={(e) => setForm({ ...form, opened_at: e.target.value })}
+              className="border rounded px-2 py-1"
+            />
+          </label>
+          <label className="flex flex-col gap-1">
+            Bonus received (optional)
+            <input
+              type="date"
+              value={form.bonus_received_at}
+              onChange={(e) =>
+                setForm({ ...form, bonus_received_at: e.target.value })
+              }
+              className="border rounded px-2 py-1"
+            />
+          </label>
+          <label className="flex flex-col gap-1">
+            Closed (optional)
+            <input
+              type="date"
+              value={form.closed_at}
+              onChange={(e) => setForm({ ...form, closed_at: e.target.value })}
+              className="border rounded px-2 py-1"
+            />
+          </label>
+          <label className="flex items-center gap-2 mt-5">
+            <input
+              type="checkbox"
+              checked={form.business}
+              onChange={(e) => setForm({ ...form, business: e.target.checked })}
+            />
+            Business card
+          </label>
+        </div>
+        <button
+          onClick={addEntry}
+          disabled={!form.card_name.trim() || !form.opened_at}
+          className="mt-4 px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 disabled:opacity-50"
+        >
+          Add card
+        </button>
+      </div>
+
+      {/* History */}
+      <div className="bg-white border rounded-xl p-6 mb-8">
+        <h2 className="text-xl font-semibold text-gray-900 mb-4">
+          Your cards
+        </h2>
+        {history.length > 0 ? (
+          <div className="space-y-2">
+            {history.map((entry) => (
+              <div
+                key={entry.id}
+                className="bg-gray-50 rounded-lg px-3 py-2 flex items-center justify-between text-sm"
+              >
+                <div>
+                  <p className="font-medium text-gray-900">
+                    {entry.card_name}
+                    {entry.business && (
+                      <span className="text-gray-500"> · business</span>
+                    )}
+                  </p>
+                  <p className="text-gray-600">
+                    Opened {entry.opened_at}
+                    {entry.bonus_received_at &&
+                      ` · bonus ${entry.bonus_received_at}`}
+                    {entry.closed_at && ` · closed ${entry.closed_at}`}
+                  </p>
+                </div>
+                <span className="flex gap-3">
+                  {!entry.bonus_received_at && (
+                    <button
+                      onClick={() =>
+                        updateEntry(entry.id, { bonus_received_at: today })
+                      }
+                      className="text-blue-600 hover:text-blue-800"
+                    >
+                      Got bonus today
+                    </button>
+                  )}
+                  {!entry.closed_at && (
+                    <button
+                      onClick={() => updateEntry(entry.id, { closed_at: today })}
+                      className="text-gray-600 hover:text-gray-800"
+                    >
+                      Closed today
+                    </button>
+                  )}
+                  <button
+                    onClick={() => deleteEntry(entry.id)}
+                    className="text-red-600 hover:text-red-800"
+                  >
+                    Delete
+                  </button>
+                </span>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-gray-600 text-sm">No cards recorded yet.</p>
+        )}
+      </div>
+
+      {/* Rules */}
+      <div className="bg-blue-50 rounded-xl p-6">
+        <h2 className="text-lg font-semibold text-blue-900 mb-2">
+          Issuer rules we check
+        </h2>
+        <ul className="list-disc list-inside space-y-1 text-sm text-blue-800">
+          {rules.map((rule) => (
+            <li key={rule.id}>{rule.description}</li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,179 @@
+"use client";
+import { useState, useEffect } from "react";
+import Link from "next/link";
+import { formatCategory } from "@/lib/categories";
+import type { MerchantRoute } from "@/lib/merchant-guide";
+
+interface MerchantGuideResponse {
+  wallet_source: "current" | "recommended";
+  wallet: Array<{ name: string }>;
+  merchants: MerchantRoute[];
+}
+
+export default function CheatSheetPage() {
+  const [guide, setGuide] = useState<MerchantGuideResponse | null>(null);
+  const [walletChoice, setWalletChoice] = useState("current");
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    loadGuide(walletChoice);
+  }, [walletChoice]);
+
+  const loadGuide = async (wallet: string) => {
+    try {
+      const userId = localStorage.getItem("userId");
+
+      if (!userId) {
+        setError("No user found. Please connect your bank account first.");
+        return;
+      }
+
+      const response = await fetch(
+        `/api/recommendations/merchants?userId=${userId}&wallet=${wallet}`
+      );
+      const result = await response.json();
+
+      if (!response.ok) {
+        setError(result.error || "Failed to load merchant guide");
+        return;
+      }
+
+      setGuide(result);
+    } catch (error) {
+      console.error("Error loading merchant guide:", error);
+      setError("Failed to load merchant guide. Please try again.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat("en-US", {
+      style: "currency",
+      currency: "USD",
+      maximumFractionDigits: 0,
+    }).format(amount);
+  };
+
+  const formatRate = (rate: number, currency: string) =>
+    currency === "cashback" ? `${rate}%` : `${rate}x ${currency}`;
+
+  if (loading) {
+    return (
+      <div className="p-8 max-w-4xl mx-auto">
+        <div className="flex items-center justify-center min-h-64">
+          <div className="text-center">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500 mx-auto mb-4"></div>
+            <p className="text-gray-600">Building your cheat sheet...</p>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="p-8 max-w-4xl mx-auto">
+        <div className="bg-red-50 border border-red-200 rounded-lg p-6 text-center">
+          <h2 className="text-xl font-semibold text-red-800 mb-2">
+            Cheat Sheet Not Available
+          </h2>
+          <p className="text-red-700 mb-4">{error}</p>
+          <Link
+            href="/connect"
+            className="inline-flex items-center px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors"
+          >
+            Connect Bank Account
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-8 max-w-4xl mx-auto print:p-0">
+      {/* Header */}
+      <div className="flex items-start justify-between mb-6">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">
+            🧾 Which Card Where
+          </h1>
+          {guide && (
+            <p className="text-gray-600">
+              {guide.wallet_source === "current"
+                ? "Your cards"
+                : "Recommended wallet"}
+              : {guide.wallet.map((card) => card.name).join(", ")}
+            </p>
+          )}
+        </div>
+        <div className="flex items-center gap-2 print:hidden">
+          <select
+            value={walletChoice}
+            onChange={(e) => setWalletChoice(e.target.value)}
+            className="border rounded px-2 py-2 bg-white text-sm"
+          >
+            <option value="current">My cards</option>
+            <option value="recommended">Recommended wallet</option>
+          </select>
+          <button
+            onClick={() => window.print()}
+            className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors"
+          >
+            Print
+          </button>
+        </div>
+      </div>
+
+      {guide && guide.wallet_source !== walletChoice && (
+        <p className="text-sm text-gray-500 mb-4 print:hidden">
+          We don&apos;t know which cards you hold yet, so this uses the
+          recommended wallet. Add your cards on the Recommendations page.
+        </p>
+      )}
+
+      <table className="w-full text-sm border-collapse">
+        <thead>
+          <tr className="border-b-2 border-gray-300 text-left text-gray-500">
+            <th className="py-2 pr-4">Merchant</th>
+            <th className="py-2 pr-4">Use</th>
+            <th className="py-2 pr-4">Earns</th>
+            <th className="py-2 text-right">Worth / past year</th>
+          </tr>
+        </thead>
+        <tbody>
+          {guide?.merchants.map((route) => (
+            <tr key={route.merchant} className="border-b border-gray-200">
+              <td className="py-2 pr-4">
+                <p className="font-medium text-gray-900">{route.merchant}</p>
+                <p className="text-xs text-gray-500">
+                  {formatCategory(route.category)} ·{" "}
+                  {formatCurrency(route.spend)} over {route.transactionCount}{" "}
+                  purchase{route.transactionCount === 1 ? "" : "s"}
+                </p>
+              </td>
+              <td className="py-2 pr-4 font-semibold text-gray-900">
+                {route.best.card}
+              </td>
+              <td className="py-2 pr-4 text-gray-700">
+                {formatRate(route.best.rate, route.best.currency)}
+              </td>
+              <td className="py-2 text-right">
+                <p className="font-medium text-gray-900">
+                  {formatCurrency(route.best.value)}
+                </p>
+                {route.runnerUp && route.best.value > route.runnerUp.value && (
+                  <p className="text-xs text-gray-500">
+                    +{formatCurrency(route.best.value - route.runnerUp.value)}{" "}
+                    vs {route.runnerUp.card}
+                  </p>
+                )}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -9,10 +9,14 @@ export default function Navigation() {
     { href: "/", label: "Home", icon: "🏠" },
     { href: "/connect", label: "Connect", icon: "🔗" },
     { href: "/analysis", label: "Analysis", icon: "📊" },
+    { href: "/recommendations", label: "Recommendations", icon: "🎯" },
+    { href: "/simulator", label: "Simulator", icon: "🎛️" },
+    { href: "/cheat-sheet", label: "Cheat Sheet", icon: "🧾" },
+    { href: "/subscriptions", label: "Subscriptions", icon: "🔁" },
   ];
 
   return (
-    <nav className="bg-white border-b border-gray-200 sticky top-0 z-50">
+    <nav className="bg-white border-b border-gray-200 sticky top-0 z-50 print:hidden">
       <div className="max-w-6xl mx-auto px-8">
         <div className="flex items-center justify-between h-16">
           {/* Logo */}
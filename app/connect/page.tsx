@@ -3,6 +3,13 @@
 import { useState, useEffect, useRef } from "react";
 import { usePlaidLink } from "react-plaid-link";
 import Link from "next/link";
+import type { ConnectionStatus, CsvImport } from "@/lib/storage";
+import type {
+  CsvColumnMapping,
+  CsvRowError,
+  DateFormat,
+} from "@/lib/csv-import";
+import type { SignConvention } from "@/lib/sign-convention";
 
 interface User {
   id: string;
@@ -23,12 +30,52 @@ interface Connection {
   }>;
   created_at: string;
   last_synced?: string;
+  status?: ConnectionStatus;
+  item_error?: string | null;
+  consent_expires_at?: string | null;
 }
 
+interface CsvPreview {
+  headers: string[];
+  mapping: CsvColumnMapping | null;
+  date_format: DateFormat | null;
+  date_formats: DateFormat[];
+  sign_convention: SignConvention | null;
+  row_count: number;
+  transactions: Array<{
+    transaction_id: string;
+    account_id: string;
+    amount: number;
+    date: string;
+    name: string;
+    category?: string[];
+  }>;
+  valid_rows: number;
+  errors: CsvRowError[];
+  error_count: number;
+}
+
+const CSV_FIELDS: Array<{
+  field: keyof CsvColumnMapping;
+  label: string;
+  required: boolean;
+}> = [
+  { field: "date", label: "Date", required: true },
+  { field: "description", label: "Description", required: true },
+  { field: "amount", label: "Amount", required: false },
+  { field: "debit", label: "Debit (money out)", required: false },
+  { field: "credit", label: "Credit (money in)", required: false },
+  { field: "category", label: "Category", required: false },
+  { field: "account", label: "Account", required: false },
+];
+
 export default function Home() {
   const [user, setUser] = useState<User | null>(null);
   const [connections, setConnections] = useState<Connection[]>([]);
   const [linkToken, setLinkToken] = useState("");
+  // Update mode: re-authenticating an existing connection
+  const [updateToken, setUpdateToken] = useState("");
+  const [updateItemId, setUpdateItemId] = useState<string | null>(null);
   const [transactions, setTransactions] = useState([]);
   const [loading, setLoading] = useState(false);
   const [message, setMessage] = useState("");
@@ -37,6 +84,8 @@ export default function Home() {
   >(null);
   const [isDragOver, setIsDragOver] = useState(false);
   const [uploadedFile, setUploadedFile] = useState<File | null>(null);
+  const [csvPreview, setCsvPreview] = useState<CsvPreview | null>(null);
+  const [csvImports, setCsvImports] = useState<CsvImport[]>([]);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   // Load existing user data on component mount
@@ -57,6 +106,12 @@ export default function Home() {
           setUser(data.user);
           setConnections(data.connections || []);
         }
+
+        const importsResponse = await fetch(`/api/import/csv?userId=${userId}`);
+        if (importsResponse.ok) {
+          const data = await importsResponse.json();
+          setCsvImports(data.imports || []);
+        }
       }
     } catch (error) {
       console.error("Error loading user data:", error);
@@ -123,11 +178,18 @@ export default function Home() {
           }),
         });
 
+        const data = await response.json();
+
+        // The bank is already connected; the existing connection is kept
+        if (response.status === 409) {
+          setMessage(`⚠️ ${data.error}`);
+          return;
+        }
+
         if (!response.ok) {
           throw new Error("Failed to connect bank account");
         }
 
-        const data = await response.json();
         setMessage(
           `✅ ${data.message} Connected to ${data.institution_name}! You can now view your spending analysis.`
         );
@@ -149,6 +211,81 @@ export default function Home() {
     },
   });
 
+  // Fix a broken connection: Link in update mode logs the user back in to
+  // the same item, so no new connection is created
+  const fixConnection = async (itemId: string) => {
+    setLoading(true);
+    setMessage("");
+
+    try {
+      const response = await fetch("/api/plaid/link-token", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ userId: user?.id, itemId }),
+      });
+
+      if (!response.ok) {
+        throw new Error("Failed to create link token");
+      }
+
+      const { link_token } = await response.json();
+      setUpdateItemId(itemId);
+      setUpdateToken(link_token);
+    } catch (error) {
+      console.error("Error creating update link token:", error);
+      setMessage("❌ Failed to start fixing the connection");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const { open: openUpdate, ready: updateReady } = usePlaidLink({
+    token: updateToken || null,
+    onSuccess: async () => {
+      setLoading(true);
+
+      try {
+        const response = await fetch("/api/plaid/connections", {
+          method: "PUT",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ itemId: updateItemId }),
+        });
+
+        if (!response.ok) {
+          throw new Error("Failed to refresh connection");
+        }
+
+        const data = await response.json();
+        setMessage(
+          data.status === "healthy"
+            ? `✅ ${data.institution_name || "Bank"} connection fixed!`
+            : "⚠️ The bank still reports a problem with this connection"
+        );
+        await loadUserData();
+      } catch (error) {
+        console.error("Error fixing connection:", error);
+        setMessage("❌ Failed to fix the connection");
+      } finally {
+        setUpdateToken("");
+        setUpdateItemId(null);
+        setLoading(false);
+      }
+    },
+    onExit: (err) => {
+      if (err) {
+        console.error("Plaid Link exit error:", err);
+        setMessage("❌ Fixing the connection was cancelled or failed");
+      }
+      setUpdateToken("");
+      setUpdateItemId(null);
+    },
+  });
+
+  // Open Link as soon as the update-mode token is ready
+  useEffect(() => {
+    if (updateToken && updateReady) openUpdate();
+  }, [updateToken, updateReady, openUpdate]);
+
   // 3. Get transactions
   const getTransactions = async (connectionId?: string) => {
     setLoading(true);
@@ -165,6 +302,14 @@ export default function Home() {
         }),
       });
 
+      if (response.status === 401) {
+        setMessage(
+          "⚠️ Your bank needs you to log in again. Use Fix connection below."
+        );
+        await loadUserData();
+        return;
+      }
+
       if (!response.ok) {
         throw new Error("Failed to fetch transactions");
       }
@@ -206,6 +351,7 @@ export default function Home() {
 
     if (csvFile) {
       setUploadedFile(csvFile);
+      setCsvPreview(null);
       setMessage(`📄 CSV file "${csvFile.name}" ready to process`);
     } else {
       setMessage("❌ Please upload a CSV file");
@@ -216,18 +362,25 @@ export default function Home() {
     const file = e.target.files?.[0];
     if (file) {
       setUploadedFile(file);
+      setCsvPreview(null);
       setMessage(`📄 CSV file "${file.name}" ready to process`);
     }
   };
 
-  const processCsvFile = async () => {
+  // Send the file to the server to detect its header, columns and date
+  // format; pass a mapping or date format to preview with those instead
+  const previewCsvFile = async (
+    mapping?: CsvColumnMapping,
+    dateFormat?: DateFormat,
+    signConvention?: SignConvention
+  ) => {
     if (!uploadedFile) {
       setMessage("❌ Please select a CSV file first");
       return;
     }
 
     setLoading(true);
-    setMessage("🔄 Processing CSV file...");
+    setMessage("🔄 Reading CSV file...");
 
     try {
       // Ensure user exists
@@ -244,63 +397,103 @@ export default function Home() {
         localStorage.setItem("userId", currentUserId);
       }
 
-      // Read and parse CSV file
-      const text = await uploadedFile.text();
-      const lines = text.split("\n").filter((line) => line.trim());
+      const response = await fetch("/api/import/csv", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          userId: currentUserId,
+          csv: await uploadedFile.text(),
+          fileName: uploadedFile.name,
+          mapping,
+          dateFormat,
+          signConvention,
+        }),
+      });
+      const data = await response.json();
 
-      if (lines.length < 2) {
-        throw new Error(
-          "CSV file must have at least a header and one data row"
-        );
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to read CSV file");
       }
 
-      // Parse CSV (basic implementation - you might want to use a proper CSV parser)
-      const headers = lines[0].split(",").map((h) => h.trim().toLowerCase());
-      const transactions = [];
+      setCsvPreview(data);
+      setMessage(
+        data.mapping && data.date_format
+          ? `📄 ${data.valid_rows} of ${data.row_count} rows ready to import. Check the columns below.`
+          : "⚠️ Couldn't detect every column. Choose them below."
+      );
+    } catch (error) {
+      console.error("CSV processing error:", error);
+      setMessage(
+        `❌ Error processing CSV: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
 
-      for (let i = 1; i < lines.length; i++) {
-        const values = lines[i].split(",");
-        if (values.length >= headers.length) {
-          const transaction: any = {};
-          headers.forEach((header, index) => {
-            transaction[header] = values[index]?.trim() || "";
-          });
+  // Change one column of the mapping and preview again
+  const updateCsvMapping = (field: keyof CsvColumnMapping, value: string) => {
+    if (!csvPreview) return;
 
-          // Add some metadata
-          transaction.transaction_id = `csv_${i}_${Date.now()}`;
-          transaction.account_id = "csv_upload";
+    const mapping: CsvColumnMapping = {
+      ...(csvPreview.mapping || { date: 0, description: 0, amount: 0 }),
+      [field]: value === "" ? null : Number(value),
+    };
+    // Money comes from one amount column or from debit and credit columns
+    if (value !== "" && field === "amount") {
+      mapping.debit = null;
+      mapping.credit = null;
+    }
+    if (value !== "" && (field === "debit" || field === "credit")) {
+      mapping.amount = null;
+    }
+    previewCsvFile(mapping);
+  };
 
-          transactions.push(transaction);
-        }
+  const importCsvFile = async () => {
+    if (!uploadedFile || !csvPreview?.mapping || !csvPreview.date_format) {
+      return;
+    }
+
+    setLoading(true);
+    setMessage("🔄 Importing transactions...");
+
+    try {
+      const response = await fetch("/api/import/csv", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          userId: user?.id,
+          csv: await uploadedFile.text(),
+          fileName: uploadedFile.name,
+          mapping: csvPreview.mapping,
+          dateFormat: csvPreview.date_format,
+          signConvention: csvPreview.sign_convention,
+          commit: true,
+        }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to import CSV file");
       }
 
-      setTransactions(transactions);
       setMessage(
-        `✅ Successfully processed ${transactions.length} transactions from CSV`
+        `✅ ${data.message}${
+          data.import.duplicates
+            ? ` (${data.import.duplicates} already imported or synced)`
+            : ""
+        }. You can now view your spending analysis.`
       );
-
-      // Create a mock connection for CSV data
-      const mockConnection: Connection = {
-        id: `csv_${Date.now()}`,
-        item_id: `csv_${uploadedFile.name}`,
-        institution_name: `CSV Upload (${uploadedFile.name})`,
-        accounts: [
-          {
-            account_id: "csv_upload",
-            name: "CSV Import",
-            type: "depository",
-            subtype: "checking",
-          },
-        ],
-        created_at: new Date().toISOString(),
-        last_synced: new Date().toISOString(),
-      };
-
-      setConnections((prev) => [...prev, mockConnection]);
+      setCsvPreview(null);
+      setUploadedFile(null);
+      await loadUserData();
     } catch (error) {
-      console.error("CSV processing error:", error);
+      console.error("CSV import error:", error);
       setMessage(
-        `❌ Error processing CSV: ${
+        `❌ Error importing CSV: ${
           error instanceof Error ? error.message : "Unknown error"
         }`
       );
@@ -309,9 +502,35 @@ export default function Home() {
     }
   };
 
+  const removeCsvImport = async (importId: string) => {
+    setLoading(true);
+
+    try {
+      const response = await fetch("/api/import/csv", {
+        method: "DELETE",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ importId }),
+      });
+
+      if (!response.ok) {
+        throw new Error("Failed to remove import");
+      }
+
+      const data = await response.json();
+      setMessage(`🗑️ Removed ${data.removed} imported transactions`);
+      await loadUserData();
+    } catch (error) {
+      console.error("Error removing CSV import:", error);
+      setMessage("❌ Failed to remove import");
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const resetConnectionMethod = () => {
     setConnectionMethod(null);
     setUploadedFile(null);
+    setCsvPreview(null);
     setMessage("");
   };
 
@@ -340,7 +559,8 @@ export default function Home() {
       {message && (
         <div className="bg-blue-50 border border-blue-200 p-4 rounded-lg mb-6">
           <p className="text-blue-800">{message}</p>
-          {message.includes("Connected to") && (
+          {(message.includes("Connected to") ||
+            message.includes("Imported")) && (
             <div className="mt-3">
               <Link
                 href="/analysis"
@@ -608,10 +828,10 @@ export default function Home() {
           </div>
 
           {/* Process Button */}
-          {uploadedFile && (
+          {uploadedFile && !csvPreview && (
             <div className="mt-4 flex justify-center">
               <button
-                onClick={processCsvFile}
+                onClick={() => previewCsvFile()}
                 disabled={loading}
                 className="bg-green-500 hover:bg-green-600 disabled:bg-gray-400 text-white px-8 py-3 rounded-lg font-medium"
               >
@@ -620,6 +840,159 @@ export default function Home() {
             </div>
           )}
 
+          {/* Column Mapping */}
+          {csvPreview && (
+            <div className="mt-6">
+              <h3 className="font-medium text-gray-800 mb-3">
+                🧭 Match Your Columns
+              </h3>
+              <div className="grid grid-cols-2 md:grid-cols-3 gap-3 mb-4">
+                {CSV_FIELDS.map(({ field, label, required }) => (
+                  <label key={field} className="text-sm text-gray-700">
+                    {label}
+                    {required && <span className="text-red-500"> *</span>}
+                    <select
+                      value={csvPreview.mapping?.[field] ?? ""}
+                      onChange={(e) => updateCsvMapping(field, e.target.value)}
+                      disabled={loading}
+                      className="mt-1 block w-full border rounded px-2 py-1 bg-white"
+                    >
+                      {(!required || !csvPreview.mapping) && (
+                        <option value="">
+                          {required ? "Choose a column" : "Not in this file"}
+                        </option>
+                      )}
+                      {csvPreview.headers.map((header, index) => (
+                        <option key={index} value={index}>
+                          {header}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                ))}
+                <label className="text-sm text-gray-700">
+                  Date format
+                  <select
+                    value={csvPreview.date_format || ""}
+                    onChange={(e) =>
+                      previewCsvFile(
+                        csvPreview.mapping || undefined,
+                        e.target.value as DateFormat
+                      )
+                    }
+                    disabled={loading || !csvPreview.mapping}
+                    className="mt-1 block w-full border rounded px-2 py-1 bg-white"
+                  >
+                    {!csvPreview.date_format && (
+                      <option value="">Not detected</option>
+                    )}
+                    {csvPreview.date_formats.map((format) => (
+                      <option key={format} value={format}>
+                        {format}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                {csvPreview.mapping?.amount != null && (
+                  <label className="text-sm text-gray-700">
+                    Purchases are
+                    <select
+                      value={csvPreview.sign_convention || ""}
+                      onChange={(e) =>
+                        previewCsvFile(
+                          csvPreview.mapping || undefined,
+                          csvPreview.date_format || undefined,
+                          e.target.value as SignConvention
+                        )
+                      }
+                      disabled={loading}
+                      className="mt-1 block w-full border rounded px-2 py-1 bg-white"
+                    >
+                      <option value="outflow_positive">Positive amounts</option>
+                      <option value="outflow_negative">Negative amounts</option>
+                    </select>
+                  </label>
+                )}
+              </div>
+
+              {csvPreview.transactions.length > 0 && (
+                <table className="w-full text-sm mb-4">
+                  <thead>
+                    <tr className="border-b text-gray-500">
+                      <th className="text-left p-2">Date</th>
+                      <th className="text-left p-2">Description</th>
+                      <th className="text-left p-2">Category</th>
+                      <th className="text-right p-2">Amount</th>
+                      <th className="text-left p-2">Account</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {csvPreview.transactions.map((t) => (
+                      <tr key={t.transaction_id} className="border-b">
+                        <td className="p-2">{t.date}</td>
+                        <td className="p-2 font-medium">{t.name}</td>
+                        <td className="p-2">{t.category?.[0] || "—"}</td>
+                        <td className="p-2 text-right font-mono">
+                          <span
+                            className={
+                              t.amount > 0 ? "text-red-600" : "text-green-600"
+                            }
+                          >
+                            ${Math.abs(t.amount).toFixed(2)}
+                          </span>
+                        </td>
+                        <td className="p-2 text-gray-600">
+                          {t.account_id.replace(/^csv:/, "")}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+
+              {csvPreview.transactions.length > 0 &&
+                csvPreview.mapping?.amount != null && (
+                  <p className="text-xs text-gray-500 mb-4">
+                    Purchases show in red and money received in green. If
+                    that&apos;s backwards, change &quot;Purchases are&quot;.
+                  </p>
+                )}
+
+              {csvPreview.error_count > 0 && (
+                <div className="text-sm text-orange-700 mb-4">
+                  <p>
+                    {csvPreview.error_count} row
+                    {csvPreview.error_count === 1 ? "" : "s"} will be skipped:
+                  </p>
+                  <ul className="list-disc list-inside">
+                    {csvPreview.errors.map((error) => (
+                      <li key={error.row}>
+                        Row {error.row}: {error.message}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              <div className="flex justify-center">
+                <button
+                  onClick={importCsvFile}
+                  disabled={
+                    loading ||
+                    !csvPreview.mapping ||
+                    !csvPreview.date_format ||
+                    csvPreview.valid_rows === 0
+                  }
+                  className="bg-green-500 hover:bg-green-600 disabled:bg-gray-400 text-white px-8 py-3 rounded-lg font-medium"
+                >
+                  {loading
+                    ? "⏳ Importing..."
+                    : `✅ Import ${csvPreview.valid_rows} Transactions`}
+                </button>
+              </div>
+            </div>
+          )}
+
           {/* CSV Format Help */}
           <div className="mt-6 p-4 bg-gray-50 rounded-lg">
             <h3 className="font-medium text-gray-800 mb-2">
@@ -632,8 +1005,9 @@ export default function Home() {
               date, description, amount, category, account
             </div>
             <p className="text-xs text-gray-500 mt-2">
-              The first row should contain column headers. Common formats from
-              banks are supported.
+              Headers, columns and date formats are detected automatically, and
+              you can adjust which column holds each field before importing.
+              Common formats from banks are supported.
             </p>
           </div>
         </div>
@@ -652,14 +1026,44 @@ export default function Home() {
                   <h3 className="font-semibold text-lg">
                     {conn.institution_name || "Unknown Bank"}
                   </h3>
-                  <button
-                    onClick={() => getTransactions(conn.item_id)}
-                    disabled={loading}
-                    className="bg-blue-500 hover:bg-blue-600 disabled:bg-gray-400 text-white px-3 py-1 rounded text-sm"
-                  >
-                    Sync
-                  </button>
+                  <div className="flex gap-2">
+                    {(conn.status === "needs_reauth" ||
+                      conn.consent_expires_at) && (
+                      <button
+                        onClick={() => fixConnection(conn.item_id)}
+                        disabled={loading}
+                        className="bg-orange-500 hover:bg-orange-600 disabled:bg-gray-400 text-white px-3 py-1 rounded text-sm"
+                      >
+                        Fix connection
+                      </button>
+                    )}
+                    <button
+                      onClick={() => getTransactions(conn.item_id)}
+                      disabled={loading || conn.status === "revoked"}
+                      className="bg-blue-500 hover:bg-blue-600 disabled:bg-gray-400 text-white px-3 py-1 rounded text-sm"
+                    >
+                      Sync
+                    </button>
+                  </div>
                 </div>
+                {conn.status === "needs_reauth" && (
+                  <p className="text-sm text-orange-700 mb-2">
+                    ⚠️ Your bank needs you to log in again before we can sync.
+                  </p>
+                )}
+                {conn.status === "revoked" && (
+                  <p className="text-sm text-red-700 mb-2">
+                    🚫 Access was revoked at your bank. Connect it again to
+                    resume syncing.
+                  </p>
+                )}
+                {conn.status !== "needs_reauth" && conn.consent_expires_at && (
+                  <p className="text-sm text-orange-700 mb-2">
+                    ⏳ Access expires on{" "}
+                    {new Date(conn.consent_expires_at).toLocaleDateString()}.
+                    Fix the connection to renew it.
+                  </p>
+                )}
                 <p className="text-sm text-gray-600 mb-2">
                   Connected: {new Date(conn.created_at).toLocaleDateString()}
                 </p>
@@ -693,6 +1097,43 @@ export default function Home() {
         </div>
       )}
 
+      {/* Imported Files */}
+      {csvImports.length > 0 && (
+        <div className="bg-white border rounded-lg p-6 mb-6">
+          <h2 className="text-xl font-semibold mb-4">
+            📄 Imported Files ({csvImports.length})
+          </h2>
+          <div className="space-y-2">
+            {csvImports.map((csvImport) => (
+              <div
+                key={csvImport.id}
+                className="flex justify-between items-center border rounded-lg p-3"
+              >
+                <div>
+                  <p className="font-medium">{csvImport.file_name}</p>
+                  <p className="text-sm text-gray-600">
+                    Imported{" "}
+                    {new Date(csvImport.created_at).toLocaleDateString()} ·{" "}
+                    {csvImport.added} new, {csvImport.updated} updated
+                    {csvImport.duplicates > 0 &&
+                      `, ${csvImport.duplicates} duplicates`}
+                    {csvImport.skipped_rows > 0 &&
+                      `, ${csvImport.skipped_rows} skipped`}
+                  </p>
+                </div>
+                <button
+                  onClick={() => removeCsvImport(csvImport.id)}
+                  disabled={loading}
+                  className="text-red-600 hover:text-red-800 disabled:text-gray-400 text-sm"
+                >
+                  Remove
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Transactions */}
       {transactions.length > 0 && (
         <div className="bg-white border rounded-lg p-6">
@@ -0,0 +1,657 @@
+"use client";
+import { useState, useEffect } from "react";
+import Link from "next/link";
+import { formatCategory } from "@/lib/categories";
+import type { CardRecommendation } from "@/lib/recommendations";
+import type { WalletResult } from "@/lib/wallet";
+import type {
+  CardComparison,
+  CurrentCardEarnings,
+} from "@/lib/current-cards";
+
+interface RecommendationsResponse {
+  total_annual_spend: number;
+  transaction_count: number;
+  recommendations: CardRecommendation[];
+  connection_errors: Array<{ item_id: string; institution_name?: string }>;
+}
+
+interface CurrentCardsResponse {
+  current_cards: CurrentCardEarnings[];
+  current_wallet: WalletResult | null;
+  comparisons: CardComparison[];
+  catalog_cards: string[];
+}
+
+export default function RecommendationsPage() {
+  const [data, setData] = useState<RecommendationsResponse | null>(null);
+  const [wallet, setWallet] = useState<WalletResult | null>(null);
+  const [walletSize, setWalletSize] = useState(2);
+  const [feeBudget, setFeeBudget] = useState("");
+  const [current, setCurrent] = useState<CurrentCardsResponse | null>(null);
+  const [cardToAdd, setCardToAdd] = useState("");
+  const [horizon, setHorizon] = useState("");
+  const [creditTier, setCreditTier] = useState("");
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    loadCurrentCards();
+    loadCreditTier();
+  }, []);
+
+  useEffect(() => {
+    loadRecommendations(horizon);
+  }, [horizon]);
+
+  useEffect(() => {
+    loadWallet(walletSize, feeBudget);
+  }, [walletSize, feeBudget]);
+
+  const loadWallet = async (size: number, budget: string) => {
+    const userId = localStorage.getItem("userId");
+    if (!userId) return;
+
+    try {
+      const params = new URLSearchParams({
+        userId,
+        walletSize: String(size),
+      });
+      if (budget) params.set("feeBudget", budget);
+
+      const response = await fetch(`/api/recommendations/wallet?${params}`);
+      if (response.ok) {
+        const result = await response.json();
+        setWallet(result.wallet);
+      }
+    } catch (error) {
+      console.error("Error loading wallet:", error);
+    }
+  };
+
+  const loadCreditTier = async () => {
+    const userId = localStorage.getItem("userId");
+    if (!userId) return;
+
+    try {
+      const response = await fetch(`/api/users/preferences?userId=${userId}`);
+      if (response.ok) {
+        const result = await response.json();
+        setCreditTier(result.preferences?.credit_tier || "");
+      }
+    } catch (error) {
+      console.error("Error loading credit tier:", error);
+    }
+  };
+
+  const saveCreditTier = async (tier: string) => {
+    const userId = localStorage.getItem("userId");
+    if (!userId) return;
+
+    try {
+      const response = await fetch("/api/users/preferences", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ userId, credit_tier: tier || null }),
+      });
+      if (response.ok) {
+        setCreditTier(tier);
+        loadRecommendations(horizon);
+        loadWallet(walletSize, feeBudget);
+        loadCurrentCards();
+      }
+    } catch (error) {
+      console.error("Error saving credit tier:", error);
+    }
+  };
+
+  const loadCurrentCards = async () => {
+    const userId = localStorage.getItem("userId");
+    if (!userId) return;
+
+    try {
+      const response = await fetch(
+        `/api/recommendations/current?userId=${userId}&limit=5`
+      );
+      if (response.ok) {
+        setCurrent(await response.json());
+      }
+    } catch (error) {
+      console.error("Error loading current cards:", error);
+    }
+  };
+
+  const saveCurrentCards = async (cards: CurrentCardEarnings[]) => {
+    const userId = localStorage.getItem("userId");
+    if (!userId) return;
+
+    try {
+      const response = await fetch("/api/users/preferences", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          userId,
+          current_cards: cards.map((card) => ({
+            card_name: card.card_name,
+            account_id: card.account_id,
+          })),
+        }),
+      });
+      if (response.ok) {
+        setCardToAdd("");
+        loadCurrentCards();
+      }
+    } catch (error) {
+      console.error("Error saving current cards:", error);
+    }
+  };
+
+  const addCurrentCard = () => {
+    if (!current || !cardToAdd) return;
+    saveCurrentCards([
+      ...current.current_cards,
+      {
+        card_name: cardToAdd,
+        source: "manual",
+        actualSpend: null,
+        actualRewards: null,
+        annualFee: 0,
+      },
+    ]);
+  };
+
+  const removeCurrentCard = (cardName: string) => {
+    if (!current) return;
+    saveCurrentCards(
+      current.current_cards.filter((card) => card.card_name !== cardName)
+    );
+  };
+
+  const loadRecommendations = async (sortHorizon: string) => {
+    try {
+      const userId = localStorage.getItem("userId");
+
+      if (!userId) {
+        setError("No user found. Please connect your bank account first.");
+        return;
+      }
+
+      const params = new URLSearchParams({ userId, limit: "10" });
+      if (sortHorizon) params.set("horizon", sortHorizon);
+
+      const response = await fetch(`/api/recommendations?${params}`);
+      const result = await response.json();
+
+      if (!response.ok) {
+        setError(result.error || "Failed to load recommendations");
+        return;
+      }
+
+      setData(result);
+    } catch (error) {
+      console.error("Error loading recommendations:", error);
+      setError("Failed to load recommendations. Please try again.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat("en-US", {
+      style: "currency",
+      currency: "USD",
+      maximumFractionDigits: 0,
+    }).format(amount);
+  };
+
+  if (loading) {
+    return (
+      <div className="p-8 max-w-6xl mx-auto">
+        <div className="flex items-center justify-center min-h-64">
+          <div className="text-center">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500 mx-auto mb-4"></div>
+            <p className="text-gray-600">Matching cards to your spending...</p>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="p-8 max-w-6xl mx-auto">
+        <div className="bg-red-50 border border-red-200 rounded-lg p-6 text-center">
+          <h2 className="text-xl font-semibold text-red-800 mb-2">
+            Recommendations Not Available
+          </h2>
+          <p className="text-red-700 mb-4">{error}</p>
+          <Link
+            href="/connect"
+            className="inline-flex items-center px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors"
+          >
+            Connect Bank Account
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-8 max-w-6xl mx-auto">
+      {/* Header */}
+      <div className="mb-8">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900 mb-2">
+              🎯 Card Recommendations
+            </h1>
+            {data && (
+              <p className="text-gray-600">
+                Ranked against {formatCurrency(data.total_annual_spend)}/yr of
+                spending from {data.transaction_count} transactions
+              </p>
+            )}
+          </div>
+          <div className="flex items-center gap-4">
+            <label className="flex items-center gap-2 text-sm">
+              My credit
+              <select
+                value={creditTier}
+                onChange={(e) => saveCreditTier(e.target.value)}
+                className="border rounded px-2 py-2 bg-white"
+              >
+                <option value="">Not sure</option>
+                <option value="excellent">Excellent (720+)</option>
+                <option value="good">Good (690–719)</option>
+                <option value="fair">Fair (630–689)</option>
+                <option value="limited">Limited / no history</option>
+              </select>
+            </label>
+            <Link
+              href="/card-history"
+              className="px-4 py-2 bg-white border border-blue-500 text-blue-600 rounded-lg hover:bg-blue-50 transition-colors"
+            >
+              Card History
+            </Link>
+            <Link
+              href="/analysis"
+              className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors"
+            >
+              View Analysis
+            </Link>
+          </div>
+        </div>
+      </div>
+
+      {data && data.connection_errors.length > 0 && (
+        <div className="bg-yellow-50 border border-yellow-200 p-4 rounded-lg mb-6">
+          <p className="text-yellow-800 text-sm">
+            ⚠️ Some connections could not be loaded:{" "}
+            {data.connection_errors
+              .map((e) => e.institution_name || e.item_id)
+              .join(", ")}
+          </p>
+        </div>
+      )}
+
+      {/* Current cards */}
+      {current && (
+        <div className="bg-white border rounded-xl p-6 mb-8">
+          <h2 className="text-xl font-semibold text-gray-900 mb-4">
+            💼 Your Current Cards
+          </h2>
+
+          {current.current_cards.length > 0 ? (
+            <div className="space-y-2 mb-4">
+              {current.current_cards.map((card) => (
+                <div
+                  key={card.card_name}
+                  className="bg-gray-50 rounded-lg px-3 py-2 flex items-center justify-between text-sm"
+                >
+                  <span className="text-gray-700">
+                    <strong>{card.card_name}</strong>
+                    {card.source === "matched" && (
+                      <span className="text-gray-500">
+                        {" "}
+                        · from linked account
+                      </span>
+                    )}
+                  </span>
+                  <span className="flex items-center gap-4 text-gray-500">
+                    {card.actualRewards !== null
+                      ? `Earned ${formatCurrency(
+                          card.actualRewards
+                        )}/yr on ${formatCurrency(card.actualSpend || 0)}`
+                      : "No linked transactions"}
+                    <button
+                      onClick={() => removeCurrentCard(card.card_name)}
+                      className="text-red-600 hover:text-red-800"
+                    >
+                      Remove
+                    </button>
+                  </span>
+                </div>
+              ))}
+              {current.current_wallet && (
+                <p className="text-sm text-gray-600">
+                  Used optimally on all your spending, these cards earn{" "}
+                  <strong>
+                    {formatCurrency(current.current_wallet.netAnnualValue)}
+                  </strong>
+                  /yr after fees.
+                </p>
+              )}
+            </div>
+          ) : (
+            <p className="text-gray-600 text-sm mb-4">
+              We couldn&apos;t match your linked accounts to a card. Add the
+              cards you hold to compare them against our picks.
+            </p>
+          )}
+
+          <div className="flex items-center gap-2 text-sm mb-4">
+            <select
+              value={cardToAdd}
+              onChange={(e) => setCardToAdd(e.target.value)}
+              className="border rounded px-2 py-1 bg-white flex-1"
+            >
+              <option value="">Add a card you hold...</option>
+              {current.catalog_cards
+                .filter(
+                  (name) =>
+                    !current.current_cards.some(
+                      (card) => card.card_name === name
+                    )
+                )
+                .map((name) => (
+                  <option key={name} value={name}>
+                    {name}
+                  </option>
+                ))}
+            </select>
+            <button
+              onClick={addCurrentCard}
+              disabled={!cardToAdd}
+              className="px-3 py-1 bg-blue-500 text-white rounded hover:bg-blue-600 disabled:opacity-50"
+            >
+              Add
+            </button>
+          </div>
+
+          {current.comparisons.length > 0 && (
+            <div className="grid md:grid-cols-2 gap-2">
+              {current.comparisons.map((comparison) => (
+                <div
+                  key={comparison.name}
+                  className="bg-blue-50 rounded-lg px-3 py-2 text-sm"
+                >
+                  <p className="font-medium text-gray-900">
+                    {comparison.name}
+                  </p>
+                  <p className="text-gray-600">
+                    Add: {comparison.addGain >= 0 ? "+" : ""}
+                    {formatCurrency(comparison.addGain)}/yr · Switch:{" "}
+                    {comparison.switchGain >= 0 ? "+" : ""}
+                    {formatCurrency(comparison.switchGain)}/yr
+                  </p>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Best wallet */}
+      <div className="bg-gradient-to-br from-purple-50 to-blue-50 border border-purple-200 rounded-xl p-6 mb-8">
+        <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+          <h2 className="text-xl font-semibold text-gray-900">
+            👛 Best Card Combination
+          </h2>
+          <div className="flex items-center gap-4 text-sm">
+            <label className="flex items-center gap-2">
+              Cards
+              <select
+                value={walletSize}
+                onChange={(e) => setWalletSize(parseInt(e.target.value, 10))}
+                className="border rounded px-2 py-1 bg-white"
+              >
+                {[1, 2, 3].map((size) => (
+                  <option key={size} value={size}>
+                    {size}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="flex items-center gap-2">
+              Fee budget $
+              <input
+                type="number"
+                min={0}
+                value={feeBudget}
+                onChange={(e) => setFeeBudget(e.target.value)}
+                placeholder="Any"
+                className="border rounded px-2 py-1 w-20 bg-white"
+              />
+            </label>
+          </div>
+        </div>
+
+        {wallet ? (
+          <>
+            <p className="text-gray-700 mb-4">
+              {wallet.cards.map((card) => card.name).join(" + ")} earns{" "}
+              <strong>{formatCurrency(wallet.netAnnualValue)}</strong>/yr after{" "}
+              {formatCurrency(wallet.annualFees)} in annual fees.
+            </p>
+            <div className="grid md:grid-cols-2 gap-2">
+              {wallet.assignments.map((assignment) => (
+                <div
+                  key={assignment.category}
+                  className="bg-white rounded-lg px-3 py-2 flex items-center justify-between text-sm"
+                >
+                  <span className="text-gray-700">
+                    {formatCategory(assignment.category)} →{" "}
+                    <strong>{assignment.card}</strong>
+                  </span>
+                  <span className="text-gray-500">
+                    {formatCurrency(assignment.value)}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </>
+        ) : (
+          <p className="text-gray-600 text-sm">
+            No card combination fits these limits.
+          </p>
+        )}
+      </div>
+
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-semibold text-gray-900">Top cards</h2>
+        <label className="flex items-center gap-2 text-sm">
+          Rank by
+          <select
+            value={horizon}
+            onChange={(e) => setHorizon(e.target.value)}
+            className="border rounded px-2 py-1 bg-white"
+          >
+            <option value="">Ongoing annual value</option>
+            <option value="1">First year, with bonus</option>
+            <option value="2">2 years</option>
+            <option value="3">3 years</option>
+            <option value="5">5 years</option>
+          </select>
+        </label>
+      </div>
+
+      <div className="space-y-6">
+        {data?.recommendations.map((card) => (
+          <div
+            key={card.name}
+            className="bg-white border rounded-xl p-6 flex flex-col md:flex-row gap-6"
+          >
+            {/* Card image and rank */}
+            <div className="md:w-48 flex-shrink-0">
+              <div className="text-sm font-semibold text-blue-600 mb-2">
+                #{card.rank}
+              </div>
+              {card.image ? (
+                // eslint-disable-next-line @next/next/no-img-element
+                <img
+                  src={card.image.src}
+                  alt={card.image.alt || card.name}
+                  className="w-full rounded-lg"
+                />
+              ) : (
+                <div className="w-full h-28 bg-gradient-to-br from-blue-500 to-purple-600 rounded-lg flex items-center justify-center">
+                  <span className="text-3xl">💳</span>
+                </div>
+              )}
+            </div>
+
+            {/* Details */}
+            <div className="flex-1">
+              <div className="flex items-start justify-between mb-3">
+                <div>
+                  <h2 className="text-xl font-semibold text-gray-900">
+                    {card.name}
+                  </h2>
+                  {!card.eligibility.eligible && (
+                    <span className="inline-block mt-1 bg-red-100 text-red-800 px-2 py-0.5 rounded text-xs font-medium">
+                      Likely declined under issuer rules
+                    </span>
+                  )}
+                </div>
+                {card.rating !== null && (
+                  <span className="bg-green-100 text-green-800 px-2 py-1 rounded text-sm font-medium">
+                    ★ {card.rating.toFixed(1)} NerdWallet
+                  </span>
+                )}
+              </div>
+
+              <div className="grid grid-cols-3 gap-4 mb-4">
+                <div>
+                  <p className="text-xs text-gray-500">Net annual value</p>
+                  <p className="text-lg font-bold text-gray-900">
+                    {formatCurrency(card.netAnnualValue)}
+                  </p>
+                </div>
+                <div>
+                  <p className="text-xs text-gray-500">First year</p>
+                  <p className="text-lg font-bold text-gray-900">
+                    {formatCurrency(card.firstYearValue)}
+                  </p>
+                  {card.introOfferValue > 0 &&
+                    card.bonusFeasibility.status === "unattainable" && (
+                      <p className="text-xs text-orange-600">
+                        Bonus excluded: minimum spend out of reach
+                      </p>
+                    )}
+                  {card.introOfferValue > 0 &&
+                    !card.eligibility.bonusEligible && (
+                      <p className="text-xs text-orange-600">
+                        Bonus excluded: issuer rules
+                      </p>
+                    )}
+                </div>
+                <div>
+                  <p className="text-xs text-gray-500">Annual fee</p>
+                  <p className="text-lg font-bold text-gray-900">
+                    {formatCurrency(card.annualFee)}
+                  </p>
+                </div>
+              </div>
+
+              {/* Multi-year projection */}
+              <div className="grid grid-cols-4 gap-2 mb-4">
+                {card.projection.map((year) => (
+                  <div
+                    key={year.years}
+                    className={`rounded-lg px-2 py-1 text-center ${
+                      String(year.years) === horizon
+                        ? "bg-blue-100"
+                        : "bg-gray-50"
+                    }`}
+                    title={`Bonus ${formatCurrency(
+                      year.bonus
+                    )} + rewards ${formatCurrency(
+                      year.rewards
+                    )} + credits ${formatCurrency(
+                      year.statementCredits
+                    )} − fees ${formatCurrency(year.annualFees)}`}
+                  >
+                    <p className="text-xs text-gray-500">
+                      {year.years} yr{year.years === 1 ? "" : "s"}
+                    </p>
+                    <p className="text-sm font-semibold text-gray-900">
+                      {formatCurrency(year.net)}
+                    </p>
+                  </div>
+                ))}
+              </div>
+
+              {/* Annual fee break-even */}
+              {card.breakEven && card.breakEven.breakEvenSpend !== null && (
+                <div className="mb-4">
+                  <div className="flex justify-between text-xs text-gray-500 mb-1">
+                    <span>
+                      Your spending: {formatCurrency(card.breakEven.currentSpend)}
+                      /yr
+                    </span>
+                    <span>
+                      Break-even vs {card.breakEven.alternative || "no-fee card"}:{" "}
+                      {formatCurrency(card.breakEven.breakEvenSpend)}/yr
+                    </span>
+                  </div>
+                  <div className="w-full bg-gray-200 rounded-full h-2">
+                    <div
+                      className={`h-2 rounded-full ${
+                        card.breakEven.worthIt ? "bg-green-500" : "bg-orange-400"
+                      }`}
+                      style={{
+                        width: `${Math.min(
+                          100,
+                          (card.breakEven.currentSpend /
+                            Math.max(card.breakEven.breakEvenSpend, 1)) *
+                            100
+                        )}%`,
+                      }}
+                    ></div>
+                  </div>
+                </div>
+              )}
+
+              {/* Why this card */}
+              <div className="bg-blue-50 rounded-lg p-4 mb-4">
+                <h3 className="text-sm font-semibold text-blue-900 mb-2">
+                  Why this card
+                </h3>
+                <ul className="list-disc list-inside space-y-1 text-sm text-blue-800">
+                  {card.explanation.map((reason) => (
+                    <li key={reason}>{reason}</li>
+                  ))}
+                </ul>
+              </div>
+
+              {/* Category breakdown */}
+              <div className="flex flex-wrap gap-2">
+                {card.breakdown.map((contribution) => (
+                  <span
+                    key={contribution.category}
+                    className="bg-gray-100 px-2 py-1 rounded text-xs text-gray-600"
+                  >
+                    {formatCategory(contribution.category)}:{" "}
+                    {contribution.rate}
+                    {contribution.currency === "cashback" ? "%" : "x"} ·{" "}
+                    {formatCurrency(contribution.value)}
+                  </span>
+                ))}
+              </div>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -2,6 +2,9 @@ import { chromium, Browser, Page } from "playwright";
 import { Ollama } from "ollama";
 import * as fs from "fs";
 import * as path from "path";
+import { parseIntroOfferTerms } from "../../../lib/intro-offers";
+import { CARD_LISTS, type CardList } from "../../../lib/credit-tiers";
+import type { CardCatalog, CreditCard } from "../../../lib/cards";
 
 class NerdWalletScraper {
   private browser: Browser | null = null;
@@ -36,19 +39,57 @@ class NerdWalletScraper {
     });
   }
 
-  async scrapeCreditCardSection(): Promise<any> {
+  // Scrape every configured list page into one catalog. A card found on
+  // several lists is kept once and tagged with all of their ids.
+  async scrapeLists(lists: CardList[] = CARD_LISTS): Promise<CardCatalog> {
+    const cardsByName = new Map<string, CreditCard>();
+    const listSummaries: NonNullable<CardCatalog["lists"]> = [];
+
+    for (const list of lists) {
+      console.log(`📄 Scraping list "${list.id}": ${list.url}`);
+      const result = await this.scrapeCreditCardSection(list);
+
+      if (!result.creditCards) {
+        console.log(`Skipping list "${list.id}":`, result.errorMessage);
+        continue;
+      }
+
+      result.creditCards.forEach((card: CreditCard) => {
+        const existing = cardsByName.get(card.name);
+        if (existing) {
+          existing.lists = [...(existing.lists || []), list.id];
+        } else {
+          cardsByName.set(card.name, card);
+        }
+      });
+
+      listSummaries.push({
+        id: list.id,
+        url: list.url,
+        totalCardsFound: result.creditCards.length,
+      });
+    }
+
+    const creditCards = Array.from(cardsByName.values());
+
+    return {
+      lists: listSummaries,
+      creditCards,
+      totalCardsFound: creditCards.length,
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  async scrapeCreditCardSection(list: CardList = CARD_LISTS[0]): Promise<any> {
     if (!this.page) {
       throw new Error("Browser not initialized. Call initialize() first.");
     }
 
-    // Navigate to the specific excellent credit cards page
-    await this.page.goto(
-      "https://www.nerdwallet.com/m/credit-cards/excellent-credit-cards",
-      {
-        waitUntil: "domcontentloaded",
-        timeout: 60000, // 60 second timeout
-      }
-    );
+    // Navigate to the list page
+    await this.page.goto(list.url, {
+      waitUntil: "domcontentloaded",
+      timeout: 60000, // 60 second timeout
+    });
     await this.page.waitForTimeout(3000);
 
     // Try to extract credit card information
@@ -229,6 +270,7 @@ class NerdWalletScraper {
       // Extract detailed tooltip information for cards that have tooltips
       for (let i = 0; i < creditCards.length; i++) {
         const card = creditCards[i];
+        card.lists = [list.id];
 
         // Extract rewards tooltip
         if (card.hasRewardsTooltip) {
@@ -262,6 +304,7 @@ class NerdWalletScraper {
               // Save both raw and parsed data
               creditCards[i].detailedIntroOffer = {
                 raw: introTooltipContent,
+                parsed: parseIntroOfferTerms(introTooltipContent),
               };
             }
           } catch (error) {
@@ -405,7 +448,12 @@ Return ONLY a valid JSON object with this exact structure:
       "category": "groceries",
       "rate": "5",
       "currency: "points" | "miles" | "cashback",
-      "platform": string | null
+      "platform": string | null,
+      "cap": number | null,
+      "capPeriod": "month" | "quarter" | "year" | null,
+      "fallbackRate": string | null,
+      "quarters": number[] | null,
+      "requiresActivation": boolean
     }
   ]
 }
@@ -419,6 +467,10 @@ Rules:
 - Remove special characters like ℠, ™, ® from platform names
 - Set platform to null if not specified
 - For "all other purchases" use category: "general"
+- For spending limits like "on up to $6,000 per year", set cap to the dollar amount (6000) and capPeriod to the period; otherwise set both to null
+- Set fallbackRate to the rate earned after the cap (e.g., "then 1%" gives "1"), or null if not stated
+- For rotating quarterly categories, add one entry per category with quarters set to the calendar quarters (1-4) it is active in; otherwise set quarters to null
+- Set requiresActivation to true only when the text says the rate must be activated or enrolled
 
 Credit card rewards text:
 "${tooltipText}"
@@ -491,15 +543,19 @@ Credit card rewards text:
   }
 }
 
-// Example usage function
-export async function runBasicScraper(): Promise<void> {
+// Example usage function. Pass list ids to scrape a subset of the lists
+// configured in lib/config/nerdwallet-lists.json.
+export async function runBasicScraper(listIds: string[] = []): Promise<void> {
   const scraper = new NerdWalletScraper();
+  const lists = listIds.length
+    ? CARD_LISTS.filter((list) => listIds.includes(list.id))
+    : CARD_LISTS;
 
   try {
     await scraper.initialize();
 
-    // Scrape credit card section
-    const creditCardInfo = await scraper.scrapeCreditCardSection();
+    // Scrape every configured list
+    const creditCardInfo = await scraper.scrapeLists(lists);
 
     // Save to file
     await scraper.saveToFile(creditCardInfo);
@@ -520,5 +576,5 @@ export default NerdWalletScraper;
 
 // If running this file directly
 if (require.main === module) {
-  runBasicScraper().catch(console.error);
+  runBasicScraper(process.argv.slice(2)).catch(console.error);
 }
@@ -0,0 +1,362 @@
+"use client";
+import { useState, useEffect } from "react";
+import Link from "next/link";
+import { formatCategory } from "@/lib/categories";
+import type { RewardCategory } from "@/lib/cards";
+import type { CardRecommendation } from "@/lib/recommendations";
+import type { CategorySpend } from "@/lib/spending";
+import type { SpendingScenario } from "@/lib/storage";
+
+interface SavedScenario extends SpendingScenario {
+  total_annual_spend: number;
+  top_card: { name: string; net_annual_value: number } | null;
+}
+
+// Sliders go to at least this much per month, or twice the actual spend
+const MIN_SLIDER_MAX = 1000;
+
+export default function SimulatorPage() {
+  const [categories, setCategories] = useState<RewardCategory[]>([]);
+  const [actualSpend, setActualSpend] = useState<CategorySpend>({});
+  const [monthlySpend, setMonthlySpend] = useState<CategorySpend>({});
+  const [recommendations, setRecommendations] = useState<
+    CardRecommendation[]
+  >([]);
+  const [scenarios, setScenarios] = useState<SavedScenario[]>([]);
+  const [scenarioName, setScenarioName] = useState("");
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    loadActualSpend();
+    loadScenarios();
+  }, []);
+
+  // Re-rank shortly after the sliders stop moving
+  useEffect(() => {
+    if (categories.length === 0) return;
+    const timeout = setTimeout(() => simulate(monthlySpend), 300);
+    return () => clearTimeout(timeout);
+  }, [monthlySpend, categories]);
+
+  const loadActualSpend = async () => {
+    try {
+      setLoading(true);
+      const userId = localStorage.getItem("userId");
+
+      if (!userId) {
+        setError("No user found. Please connect your bank account first.");
+        return;
+      }
+
+      const response = await fetch(
+        `/api/recommendations/simulate?userId=${userId}`
+      );
+      const result = await response.json();
+
+      if (!response.ok) {
+        setError(result.error || "Failed to load your spending");
+        return;
+      }
+
+      setCategories(result.categories);
+      setActualSpend(result.monthly_spend);
+      setMonthlySpend(result.monthly_spend);
+    } catch (error) {
+      console.error("Error loading spending:", error);
+      setError("Failed to load your spending. Please try again.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const simulate = async (spend: CategorySpend) => {
+    const userId = localStorage.getItem("userId");
+    if (!userId) return;
+
+    try {
+      const response = await fetch("/api/recommendations/simulate", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ userId, monthly_spend: spend, limit: 5 }),
+      });
+      if (response.ok) {
+        const result = await response.json();
+        setRecommendations(result.recommendations);
+      }
+    } catch (error) {
+      console.error("Error simulating recommendations:", error);
+    }
+  };
+
+  const loadScenarios = async () => {
+    const userId = localStorage.getItem("userId");
+    if (!userId) return;
+
+    try {
+      const response = await fetch(`/api/users/scenarios?userId=${userId}`);
+      if (response.ok) {
+        const result = await response.json();
+        setScenarios(result.scenarios);
+      }
+    } catch (error) {
+      console.error("Error loading scenarios:", error);
+    }
+  };
+
+  const saveScenario = async () => {
+    const userId = localStorage.getItem("userId");
+    if (!userId || !scenarioName.trim()) return;
+
+    try {
+      const response = await fetch("/api/users/scenarios", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          userId,
+          name: scenarioName,
+          monthly_spend: monthlySpend,
+        }),
+      });
+      if (response.ok) {
+        setScenarioName("");
+        loadScenarios();
+      }
+    } catch (error) {
+      console.error("Error saving scenario:", error);
+    }
+  };
+
+  const deleteScenario = async (scenarioId: string) => {
+    try {
+      const response = await fetch("/api/users/scenarios", {
+        method: "DELETE",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ scenarioId }),
+      });
+      if (response.ok) {
+        loadScenarios();
+      }
+    } catch (error) {
+      console.error("Error deleting scenario:", error);
+    }
+  };
+
+  const loadScenario = (scenario: SavedScenario) => {
+    const spend: CategorySpend = {};
+    categories.forEach((category) => {
+      spend[category] = scenario.monthly_spend[category] || 0;
+    });
+    setMonthlySpend(spend);
+  };
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat("en-US", {
+      style: "currency",
+      currency: "USD",
+      maximumFractionDigits: 0,
+    }).format(amount);
+  };
+
+  const totalMonthly = categories.reduce(
+    (sum, category) => sum + (monthlySpend[category] || 0),
+    0
+  );
+
+  if (loading) {
+    return (
+      <div className="p-8 max-w-6xl mx-auto">
+        <div className="flex items-center justify-center min-h-64">
+          <div className="text-center">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500 mx-auto mb-4"></div>
+            <p className="text-gray-600">Loading your spending...</p>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="p-8 max-w-6xl mx-auto">
+        <div className="bg-red-50 border border-red-200 rounded-lg p-6 text-center">
+          <h2 className="text-xl font-semibold text-red-800 mb-2">
+            Simulator Not Available
+          </h2>
+          <p className="text-red-700 mb-4">{error}</p>
+          <Link
+            href="/connect"
+            className="inline-flex items-center px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors"
+          >
+            Connect Bank Account
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-8 max-w-6xl mx-auto">
+      {/* Header */}
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-gray-900 mb-2">
+          🎛️ What-if Simulator
+        </h1>
+        <p className="text-gray-600">
+          Start from your actual spending and adjust it to see how the best
+          cards change. {formatCurrency(totalMonthly)}/month in this scenario.
+        </p>
+      </div>
+
+      <div className="grid md:grid-cols-2 gap-8">
+        {/* Sliders */}
+        <div className="bg-white border rounded-xl p-6">
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-xl font-semibold text-gray-900">
+              Monthly spending
+            </h2>
+            <button
+              onClick={() => setMonthlySpend(actualSpend)}
+              className="text-sm text-blue-600 hover:text-blue-800"
+            >
+              Reset to actual
+            </button>
+          </div>
+
+          <div className="space-y-4">
+            {categories.map((category) => {
+              const actual = actualSpend[category] || 0;
+              const value = monthlySpend[category] || 0;
+              const max = Math.max(MIN_SLIDER_MAX, actual * 2, value);
+
+              return (
+                <div key={category}>
+                  <div className="flex justify-between text-sm mb-1">
+                    <span className="text-gray-700 capitalize">
+                      {formatCategory(category)}
+                    </span>
+                    <span className="text-gray-900 font-medium">
+                      {formatCurrency(value)}
+                      {value !== actual && (
+                        <span className="text-gray-400 font-normal">
+                          {" "}
+                          (actual {formatCurrency(actual)})
+                        </span>
+                      )}
+                    </span>
+                  </div>
+                  <input
+                    type="range"
+                    min={0}
+                    max={max}
+                    step={10}
+                    value={value}
+                    onChange={(e) =>
+                      setMonthlySpend({
+                        ...monthlySpend,
+                        [category]: parseInt(e.target.value, 10),
+                      })
+                    }
+                    className="w-full"
+                  />
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="flex items-center gap-2 mt-6 text-sm">
+            <input
+              type="text"
+              value={scenarioName}
+              onChange={(e) => setScenarioName(e.target.value)}
+              placeholder="Scenario name, e.g. Starting to commute"
+              className="border rounded px-2 py-1 flex-1"
+            />
+            <button
+              onClick={saveScenario}
+              disabled={!scenarioName.trim()}
+              className="px-3 py-1 bg-blue-500 text-white rounded hover:bg-blue-600 disabled:opacity-50"
+            >
+              Save scenario
+            </button>
+          </div>
+        </div>
+
+        {/* Live ranking */}
+        <div>
+          <div className="bg-white border rounded-xl p-6 mb-6">
+            <h2 className="text-xl font-semibold text-gray-900 mb-4">
+              Best cards for this scenario
+            </h2>
+            <div className="space-y-2">
+              {recommendations.map((card) => (
+                <div
+                  key={card.name}
+                  className="bg-gray-50 rounded-lg px-3 py-2 flex items-center justify-between text-sm"
+                >
+                  <span className="text-gray-700">
+                    <span className="text-blue-600 font-semibold">
+                      #{card.rank}
+                    </span>{" "}
+                    {card.name}
+                  </span>
+                  <span className="text-gray-900 font-medium">
+                    {formatCurrency(card.netAnnualValue)}/yr
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {/* Saved scenarios */}
+          <div className="bg-white border rounded-xl p-6">
+            <h2 className="text-xl font-semibold text-gray-900 mb-4">
+              Saved scenarios
+            </h2>
+            {scenarios.length > 0 ? (
+              <div className="space-y-2">
+                {scenarios.map((scenario) => (
+                  <div
+                    key={scenario.id}
+                    className="bg-gray-50 rounded-lg px-3 py-2 text-sm"
+                  >
+                    <div className="flex items-center justify-between">
+                      <span className="font-medium text-gray-900">
+                        {scenario.name}
+                      </span>
+                      <span className="flex gap-3">
+                        <button
+                          onClick={() => loadScenario(scenario)}
+                          className="text-blue-600 hover:text-blue-800"
+                        >
+                          Load
+                        </button>
+                        <button
+                          onClick={() => deleteScenario(scenario.id)}
+                          className="text-red-600 hover:text-red-800"
+                        >
+                          Delete
+                        </button>
+                      </span>
+                    </div>
+                    <p className="text-gray-600">
+                      {formatCurrency(scenario.total_annual_spend / 12)}/month
+                      {scenario.top_card &&
+                        ` · ${scenario.top_card.name} earns ${formatCurrency(
+                          scenario.top_card.net_annual_value
+                        )}/yr`}
+                    </p>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="text-gray-600 text-sm">
+                Save a scenario to compare it with others later.
+              </p>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
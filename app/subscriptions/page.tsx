@@ -0,0 +1,190 @@
+"use client";
+import { useState, useEffect } from "react";
+import Link from "next/link";
+import { formatCategory } from "@/lib/categories";
+import type { MerchantCardValue } from "@/lib/merchant-guide";
+import type { Subscription } from "@/lib/subscriptions";
+
+interface SubscriptionsResponse {
+  wallet_source: "current" | "recommended";
+  total_monthly_cost: number;
+  subscriptions: Array<Subscription & { best_card: MerchantCardValue | null }>;
+}
+
+export default function SubscriptionsPage() {
+  const [data, setData] = useState<SubscriptionsResponse | null>(null);
+  const [walletChoice, setWalletChoice] = useState("current");
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    loadSubscriptions(walletChoice);
+  }, [walletChoice]);
+
+  const loadSubscriptions = async (wallet: string) => {
+    try {
+      const userId = localStorage.getItem("userId");
+
+      if (!userId) {
+        setError("No user found. Please connect your bank account first.");
+        return;
+      }
+
+      const response = await fetch(
+        `/api/recommendations/subscriptions?userId=${userId}&wallet=${wallet}`
+      );
+      const result = await response.json();
+
+      if (!response.ok) {
+        setError(result.error || "Failed to load subscriptions");
+        return;
+      }
+
+      setData(result);
+    } catch (error) {
+      console.error("Error loading subscriptions:", error);
+      setError("Failed to load subscriptions. Please try again.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat("en-US", {
+      style: "currency",
+      currency: "USD",
+    }).format(amount);
+  };
+
+  const formatRate = (rate: number, currency: string) =>
+    currency === "cashback" ? `${rate}%` : `${rate}x ${currency}`;
+
+  if (loading) {
+    return (
+      <div className="p-8 max-w-5xl mx-auto">
+        <div className="flex items-center justify-center min-h-64">
+          <div className="text-center">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500 mx-auto mb-4"></div>
+            <p className="text-gray-600">Looking for recurring charges...</p>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="p-8 max-w-5xl mx-auto">
+        <div className="bg-red-50 border border-red-200 rounded-lg p-6 text-center">
+          <h2 className="text-xl font-semibold text-red-800 mb-2">
+            Subscriptions Not Available
+          </h2>
+          <p className="text-red-700 mb-4">{error}</p>
+          <Link
+            href="/connect"
+            className="inline-flex items-center px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors"
+          >
+            Connect Bank Account
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-8 max-w-5xl mx-auto">
+      {/* Header */}
+      <div className="flex items-start justify-between mb-6">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">
+            🔁 Subscriptions & Bills
+          </h1>
+          {data && (
+            <p className="text-gray-600">
+              {data.subscriptions.length} recurring charge
+              {data.subscriptions.length === 1 ? "" : "s"} ·{" "}
+              {formatCurrency(data.total_monthly_cost)} per month
+            </p>
+          )}
+        </div>
+        <select
+          value={walletChoice}
+          onChange={(e) => setWalletChoice(e.target.value)}
+          className="border rounded px-2 py-2 bg-white text-sm"
+        >
+          <option value="current">My cards</option>
+          <option value="recommended">Recommended wallet</option>
+        </select>
+      </div>
+
+      {data && data.wallet_source !== walletChoice && (
+        <p className="text-sm text-gray-500 mb-4">
+          We don&apos;t know which cards you hold yet, so this uses the
+          recommended wallet. Add your cards on the Recommendations page.
+        </p>
+      )}
+
+      {data && data.subscriptions.length > 0 ? (
+        <table className="w-full text-sm border-collapse">
+          <thead>
+            <tr className="border-b-2 border-gray-300 text-left text-gray-500">
+              <th className="py-2 pr-4">Merchant</th>
+              <th className="py-2 pr-4">Billed</th>
+              <th className="py-2 pr-4 text-right">Per month</th>
+              <th className="py-2 pr-4">Next charge</th>
+              <th className="py-2">Bill it to</th>
+            </tr>
+          </thead>
+          <tbody>
+            {data.subscriptions.map((subscription) => (
+              <tr
+                key={subscription.transactionIds[0]}
+                className="border-b border-gray-200"
+              >
+                <td className="py-2 pr-4">
+                  <p className="font-medium text-gray-900">
+                    {subscription.merchant}
+                  </p>
+                  <p className="text-xs text-gray-500 capitalize">
+                    {formatCategory(subscription.category)}
+                  </p>
+                </td>
+                <td className="py-2 pr-4 text-gray-700">
+                  {formatCurrency(subscription.amount)} {subscription.cadence}
+                </td>
+                <td className="py-2 pr-4 text-right font-medium text-gray-900">
+                  {formatCurrency(subscription.monthlyCost)}
+                </td>
+                <td className="py-2 pr-4 text-gray-700">
+                  {new Date(
+                    `${subscription.nextExpectedDate}T00:00:00`
+                  ).toLocaleDateString()}
+                </td>
+                <td className="py-2">
+                  {subscription.best_card && (
+                    <>
+                      <p className="font-medium text-gray-900">
+                        {subscription.best_card.card}
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        {formatRate(
+                          subscription.best_card.rate,
+                          subscription.best_card.currency
+                        )}{" "}
+                        · {formatCurrency(subscription.best_card.value)} / year
+                      </p>
+                    </>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      ) : (
+        <p className="text-gray-600">
+          No recurring charges found in the last 12 months.
+        </p>
+      )}
+    </div>
+  );
+}
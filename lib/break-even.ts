@@ -0,0 +1,93 @@
+import type { RewardCategory } from "./cards";
+import type { CardRewardValue } from "./rewards";
+import type { CategorySpend } from "./spending";
+
+export interface CategoryBreakEven {
+  category: RewardCategory;
+  currentSpend: number;
+  // Annual spend in this category, others unchanged, at which the fee card
+  // and the alternative are worth the same; null if extra spending in this
+  // category never closes the gap
+  breakEvenSpend: number | null;
+}
+
+export interface BreakEven {
+  annualFee: number;
+  alternative: string | null;
+  alternativeValue: number;
+  netAnnualValue: number;
+  worthIt: boolean;
+  currentSpend: number;
+  // Total annual spend, at the user's current category mix, at which the fee
+  // card and the alternative are worth the same; null if it never wins
+  breakEvenSpend: number | null;
+  categories: CategoryBreakEven[];
+}
+
+// Only the user's biggest categories get a per-category break-even
+const BREAK_EVEN_TOP_CATEGORIES = 3;
+
+function ratePerDollar(
+  value: CardRewardValue,
+  category: RewardCategory
+): number {
+  const contribution = value.contributions.find(
+    (c) => c.category === category
+  );
+  return contribution && contribution.spend > 0
+    ? contribution.value / contribution.spend
+    : 0;
+}
+
+// Where a card with an annual fee beats the best no-fee alternative
+export function getBreakEven(
+  value: CardRewardValue,
+  alternative: CardRewardValue | null,
+  spend: CategorySpend
+): BreakEven | null {
+  if (value.annualFee <= 0) return null;
+
+  const alternativeValue = alternative ? alternative.annualRewards : 0;
+  const gap = alternativeValue - value.netAnnualValue;
+  const currentSpend = value.contributions.reduce(
+    (sum, c) => sum + c.spend,
+    0
+  );
+
+  // Scaling all spending keeps the mix, so both cards' rewards scale linearly
+  const perDollarAdvantage =
+    currentSpend > 0
+      ? (value.annualRewards - alternativeValue) / currentSpend
+      : 0;
+  const overallBreakEven =
+    perDollarAdvantage > 0 ? value.annualFee / perDollarAdvantage : null;
+
+  const categories = value.contributions
+    .slice()
+    .sort((a, b) => b.spend - a.spend)
+    .slice(0, BREAK_EVEN_TOP_CATEGORIES)
+    .map((contribution) => {
+      const { category } = contribution;
+      const currentCategorySpend = spend[category] || 0;
+      const advantage =
+        ratePerDollar(value, category) -
+        (alternative ? ratePerDollar(alternative, category) : 0);
+      const breakEvenSpend =
+        advantage > 0
+          ? Math.max(0, currentCategorySpend + gap / advantage)
+          : null;
+
+      return { category, currentSpend: currentCategorySpend, breakEvenSpend };
+    });
+
+  return {
+    annualFee: value.annualFee,
+    alternative: alternative ? alternative.card.name : null,
+    alternativeValue,
+    netAnnualValue: value.netAnnualValue,
+    worthIt: gap < 0,
+    currentSpend,
+    breakEvenSpend: overallBreakEven,
+    categories,
+  };
+}
@@ -0,0 +1,129 @@
+import * as fs from "fs";
+import * as path from "path";
+import type { IntroOfferTerms } from "./intro-offers";
+
+// Reward categories the NerdWallet scraper asks the model to emit
+export const REWARD_CATEGORIES = [
+  "general",
+  "dining",
+  "transit",
+  "streaming",
+  "online-retail",
+  "online-groceries",
+  "groceries",
+  "gas",
+  "travel",
+] as const;
+
+export type RewardCategory = (typeof REWARD_CATEGORIES)[number];
+
+export type RewardCurrency = "points" | "miles" | "cashback";
+
+export type CapPeriod = "month" | "quarter" | "year";
+
+// Types mirroring the card objects written to data/cc.json by the scraper
+export interface CardRewardCategory {
+  category: string;
+  rate: string;
+  currency: RewardCurrency;
+  platform: string | null;
+  // Spend limit for this rate, e.g. "on up to $6,000 per year"
+  cap?: number | null;
+  capPeriod?: CapPeriod | null;
+  // Rate once the cap is reached; the card's general rate if not given
+  fallbackRate?: string | null;
+  // Calendar quarters (1-4) a rotating category is active in
+  quarters?: number[] | null;
+  requiresActivation?: boolean;
+}
+
+export interface IntroOffer {
+  amount: number | "match" | null;
+  currency: "dollars" | "points" | "miles" | "cashback" | null;
+}
+
+export interface CardImage {
+  src: string;
+  alt: string;
+  filename: string;
+}
+
+export interface CreditCard {
+  name: string;
+  rating?: string;
+  annualFee?: string;
+  rewards?: string;
+  hasRewardsTooltip?: boolean;
+  introOffer?: IntroOffer;
+  hasIntroTooltip?: boolean;
+  image?: CardImage;
+  // Ids of the NerdWallet lists the card was found on
+  lists?: string[];
+  detailedRewards?: {
+    raw: string;
+    parsed: {
+      categories: CardRewardCategory[];
+    };
+  };
+  detailedIntroOffer?: {
+    raw: string;
+    parsed?: IntroOfferTerms;
+  };
+}
+
+export interface CardCatalog {
+  url?: string;
+  lists?: Array<{ id: string; url: string; totalCardsFound: number }>;
+  creditCards: CreditCard[];
+  totalCardsFound?: number;
+  timestamp?: string;
+}
+
+export function isRewardCategory(value: string): value is RewardCategory {
+  return (REWARD_CATEGORIES as readonly string[]).includes(value);
+}
+
+// Load the scraped card catalog from the data directory
+export function loadCardCatalog(filename: string = "cc.json"): CardCatalog {
+  const filePath = path.join(process.cwd(), "data", filename);
+
+  try {
+    if (fs.existsSync(filePath)) {
+      const content = fs.readFileSync(filePath, "utf8");
+      const catalog = JSON.parse(content);
+      return {
+        ...catalog,
+        creditCards: Array.isArray(catalog.creditCards)
+          ? catalog.creditCards
+          : [],
+      };
+    }
+  } catch (error) {
+    console.error(`Error reading ${filePath}:`, error);
+  }
+
+  return { creditCards: [] };
+}
+
+// The scraper stores the fee column minus its leading "$", which leaves
+// values like "0", "95" or "0 intro annual fee for the first year, then 95"
+export function parseAnnualFee(annualFee?: string): number {
+  if (!annualFee) return 0;
+
+  const ongoing = annualFee.match(/then\s*\$?(\d{1,3}(?:,\d{3})*(?:\.\d+)?)/i);
+  const first = annualFee.match(/\d{1,3}(?:,\d{3})*(?:\.\d+)?/);
+  const match = ongoing ? ongoing[1] : first?.[0];
+
+  return match ? parseFloat(match.replace(/,/g, "")) : 0;
+}
+
+// Fee charged in the first year, e.g. 0 for "0 intro annual fee for the
+// first year, then 95"
+export function parseFirstYearFee(annualFee?: string): number {
+  if (!annualFee || !/then/i.test(annualFee)) {
+    return parseAnnualFee(annualFee);
+  }
+
+  const first = annualFee.match(/\d{1,3}(?:,\d{3})*(?:\.\d+)?/);
+  return first ? parseFloat(first[0].replace(/,/g, "")) : 0;
+}
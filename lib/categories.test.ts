@@ -0,0 +1,153 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import categoryMap from "./config/category-map.json";
+import { isRewardCategory, type RewardCategory } from "./cards";
+import {
+  CATEGORY_MAP_VERSION,
+  toRewardCategory,
+  type CategorizedTransaction,
+} from "./categories";
+
+function pfc(primary: string, detailed: string) {
+  return { personal_finance_category: { primary, detailed } };
+}
+
+const cases: Array<{
+  name: string;
+  transaction: CategorizedTransaction;
+  expected: RewardCategory;
+}> = [
+  // Personal finance category: detailed first, then primary
+  {
+    name: "detailed category",
+    transaction: pfc("FOOD_AND_DRINK", "FOOD_AND_DRINK_GROCERIES"),
+    expected: "groceries",
+  },
+  {
+    name: "detailed mapping wins over its primary",
+    transaction: pfc("FOOD_AND_DRINK", "FOOD_AND_DRINK_BEER_WINE_AND_LIQUOR"),
+    expected: "general",
+  },
+  {
+    name: "primary when the detailed category is unmapped",
+    transaction: pfc("TRAVEL", "TRAVEL_CRUISES"),
+    expected: "travel",
+  },
+  {
+    name: "personal finance category wins over the legacy hierarchy",
+    transaction: {
+      ...pfc("TRANSPORTATION", "TRANSPORTATION_GAS"),
+      category: ["Food and Drink", "Restaurants"],
+    },
+    expected: "gas",
+  },
+  {
+    name: "legacy hierarchy when the personal finance category is unmapped",
+    transaction: {
+      ...pfc("GENERAL_SERVICES", "GENERAL_SERVICES_OTHER_GENERAL_SERVICES"),
+      category: ["Travel", "Car Service", "Ride Share"],
+    },
+    expected: "transit",
+  },
+
+  // Legacy hierarchy: most specific level first
+  {
+    name: "most specific legacy level",
+    transaction: { category: ["Travel", "Taxi"] },
+    expected: "transit",
+  },
+  {
+    name: "parent legacy level when the leaf is unmapped",
+    transaction: { category: ["Travel", "Cruises"] },
+    expected: "travel",
+  },
+  {
+    name: "leaf below an unmapped parent",
+    transaction: { category: ["Shops", "Supermarkets and Groceries"] },
+    expected: "groceries",
+  },
+  {
+    name: "unmapped hierarchy",
+    transaction: { category: ["Shops", "Hardware Store"] },
+    expected: "general",
+  },
+  {
+    name: "no categories",
+    transaction: { category: null, personal_finance_category: null },
+    expected: "general",
+  },
+
+  // Online variants
+  {
+    name: "online groceries by personal finance category",
+    transaction: {
+      ...pfc("FOOD_AND_DRINK", "FOOD_AND_DRINK_GROCERIES"),
+      payment_channel: "online",
+    },
+    expected: "online-groceries",
+  },
+  {
+    name: "online groceries by legacy category",
+    transaction: {
+      category: ["Shops", "Supermarkets and Groceries"],
+      payment_channel: "online",
+    },
+    expected: "online-groceries",
+  },
+  {
+    name: "in-store groceries",
+    transaction: {
+      ...pfc("FOOD_AND_DRINK", "FOOD_AND_DRINK_GROCERIES"),
+      payment_channel: "in store",
+    },
+    expected: "groceries",
+  },
+  {
+    name: "online purchase without an online variant",
+    transaction: {
+      ...pfc("FOOD_AND_DRINK", "FOOD_AND_DRINK_RESTAURANT"),
+      payment_channel: "online",
+    },
+    expected: "dining",
+  },
+
+  // Merchant rules
+  {
+    name: "user rule wins over Plaid's categories",
+    transaction: {
+      ...pfc("FOOD_AND_DRINK", "FOOD_AND_DRINK_GROCERIES"),
+      payment_channel: "online",
+      reward_category: "general",
+    },
+    expected: "general",
+  },
+];
+
+describe("toRewardCategory", () => {
+  for (const { name, transaction, expected } of cases) {
+    test(name, () => {
+      assert.equal(toRewardCategory(transaction), expected);
+    });
+  }
+});
+
+describe("category map", () => {
+  test("is versioned", () => {
+    assert.match(CATEGORY_MAP_VERSION, /^\d+\.\d+\.\d+$/);
+  });
+
+  test("only maps to reward categories", () => {
+    const tables = [
+      categoryMap.personalFinanceCategory.detailed,
+      categoryMap.personalFinanceCategory.primary,
+      categoryMap.legacyCategory,
+      categoryMap.onlineChannel,
+    ];
+
+    for (const table of tables) {
+      for (const [from, to] of Object.entries(table)) {
+        assert.ok(isRewardCategory(to), `${from} maps to ${to}`);
+      }
+    }
+  });
+});
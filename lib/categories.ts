@@ -0,0 +1,83 @@
+import categoryMap from "./config/category-map.json";
+import type { RewardCategory } from "./cards";
+
+// Plaid's newer taxonomy, e.g. { primary: "FOOD_AND_DRINK", detailed:
+// "FOOD_AND_DRINK_GROCERIES" }
+export interface PersonalFinanceCategory {
+  primary: string;
+  detailed: string;
+  confidence_level?: string | null;
+}
+
+// The transaction fields the mapper looks at
+export interface CategorizedTransaction {
+  category?: string[] | null;
+  personal_finance_category?: PersonalFinanceCategory | null;
+  payment_channel?: string | null;
+  // Set by the user's merchant rules; wins over Plaid's categories
+  reward_category?: RewardCategory | null;
+}
+
+type CategoryTable = { [plaidCategory: string]: RewardCategory };
+
+// Mapping tables live in lib/config/category-map.json; bump its version
+// whenever a mapping changes so stored results can be traced to a table
+export const CATEGORY_MAP_VERSION = categoryMap.version;
+
+const DETAILED_MAP = categoryMap.personalFinanceCategory
+  .detailed as CategoryTable;
+const PRIMARY_MAP = categoryMap.personalFinanceCategory.primary as CategoryTable;
+// Legacy category names match at any level of the hierarchy
+const LEGACY_MAP = categoryMap.legacyCategory as CategoryTable;
+// Online variants of a category, for purchases Plaid marks as online
+const ONLINE_MAP = categoryMap.onlineChannel as Partial<
+  Record<RewardCategory, RewardCategory>
+>;
+
+function mapCategory(
+  transaction: CategorizedTransaction
+): RewardCategory | null {
+  const pfc = transaction.personal_finance_category;
+  if (pfc) {
+    const mapped = DETAILED_MAP[pfc.detailed] || PRIMARY_MAP[pfc.primary];
+    if (mapped) return mapped;
+  }
+
+  const category = transaction.category || [];
+  for (let i = category.length - 1; i >= 0; i--) {
+    const mapped = LEGACY_MAP[category[i]];
+    if (mapped) return mapped;
+  }
+
+  return null;
+}
+
+// Map a transaction to a reward category: Plaid's personal finance category
+// first (detailed, then primary), then the legacy hierarchy from its most
+// specific level. Anything unmatched earns the card's general rate.
+export function toRewardCategory(
+  transaction: CategorizedTransaction
+): RewardCategory {
+  if (transaction.reward_category) return transaction.reward_category;
+
+  const category = mapCategory(transaction) || "general";
+
+  if (transaction.payment_channel === "online") {
+    return ONLINE_MAP[category] || category;
+  }
+
+  return category;
+}
+
+// True when neither a rule nor the mapping tables place the transaction, e.g.
+// no Plaid category or a free-form one from a CSV import
+export function isUncategorized(transaction: CategorizedTransaction): boolean {
+  return !transaction.reward_category && mapCategory(transaction) === null;
+}
+
+// Human-readable label for a reward category
+export function formatCategory(category: RewardCategory): string {
+  return category === "general"
+    ? "other purchases"
+    : category.replace(/-/g, " ");
+}
@@ -0,0 +1,84 @@
+import merchantRules from "./config/merchant-rules.json";
+import type { CategoryRule } from "./storage";
+import type { Transaction } from "./spending";
+
+// The fields a rule matches on; user rules live in storage, admin defaults
+// in lib/config/merchant-rules.json
+export type MerchantRule = Pick<
+  CategoryRule,
+  "pattern" | "min_amount" | "max_amount" | "account_id" | "category"
+>;
+
+// The transaction fields a rule looks at
+type RuleTarget = Pick<Transaction, "name" | "amount" | "account_id">;
+
+export interface AdminCategoryRule extends MerchantRule {
+  id: string;
+  note?: string;
+}
+
+export const ADMIN_CATEGORY_RULES = merchantRules.rules as AdminCategoryRule[];
+
+export function matchesRule(
+  rule: MerchantRule,
+  transaction: RuleTarget
+): boolean {
+  const pattern = rule.pattern.trim().toLowerCase();
+  if (!pattern || !transaction.name.toLowerCase().includes(pattern)) {
+    return false;
+  }
+
+  if (rule.account_id && rule.account_id !== transaction.account_id) {
+    return false;
+  }
+
+  if (
+    rule.min_amount !== null &&
+    rule.min_amount !== undefined &&
+    transaction.amount < rule.min_amount
+  ) {
+    return false;
+  }
+
+  return (
+    rule.max_amount === null ||
+    rule.max_amount === undefined ||
+    transaction.amount <= rule.max_amount
+  );
+}
+
+// Newest user rules first, so a rule added to fix a broader one wins, then
+// the admin defaults
+export function orderCategoryRules(
+  userRules: CategoryRule[],
+  adminRules: MerchantRule[] = ADMIN_CATEGORY_RULES
+): MerchantRule[] {
+  return [
+    ...[...userRules].sort((a, b) => b.updated_at.localeCompare(a.updated_at)),
+    ...adminRules,
+  ];
+}
+
+export function findCategoryRule<T extends MerchantRule>(
+  transaction: RuleTarget,
+  rules: T[]
+): T | undefined {
+  return rules.find((rule) => matchesRule(rule, transaction));
+}
+
+// Pin the reward category of every transaction a rule matches. Runs before
+// spending analysis so both analysis and recommendations see the override.
+export function applyCategoryRules<T extends RuleTarget>(
+  transactions: T[],
+  userRules: CategoryRule[],
+  adminRules: MerchantRule[] = ADMIN_CATEGORY_RULES
+): T[] {
+  const rules = orderCategoryRules(userRules, adminRules);
+
+  return transactions.map((transaction) => {
+    const rule = findCategoryRule(transaction, rules);
+    return rule
+      ? { ...transaction, reward_category: rule.category }
+      : transaction;
+  });
+}
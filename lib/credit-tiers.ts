@@ -0,0 +1,49 @@
+import scraperLists from "./config/nerdwallet-lists.json";
+import type { CreditCard } from "./cards";
+
+// Best to worst; "limited" is little or no credit history
+export const CREDIT_TIERS = ["excellent", "good", "fair", "limited"] as const;
+
+export type CreditTier = (typeof CREDIT_TIERS)[number];
+
+// A NerdWallet list page the scraper crawls. creditTier is the credit the
+// list targets, or null for lists grouped by product (travel, business)
+export interface CardList {
+  id: string;
+  url: string;
+  creditTier: CreditTier | null;
+}
+
+export const CARD_LISTS = scraperLists.lists as CardList[];
+
+// Catalogs scraped before lists were tagged only covered this page
+const LEGACY_LISTS = ["excellent-credit"];
+
+export function isCreditTier(value: unknown): value is CreditTier {
+  return (CREDIT_TIERS as readonly unknown[]).includes(value);
+}
+
+// Weakest credit tier any of the card's lists targets. Cards only found on
+// product lists are assumed to need excellent credit.
+export function getCardCreditTier(card: CreditCard): CreditTier {
+  const tiers = (card.lists || LEGACY_LISTS)
+    .map((id) => CARD_LISTS.find((list) => list.id === id)?.creditTier)
+    .filter(isCreditTier);
+
+  return tiers.reduce<CreditTier>(
+    (weakest, tier) =>
+      CREDIT_TIERS.indexOf(tier) > CREDIT_TIERS.indexOf(weakest)
+        ? tier
+        : weakest,
+    "excellent"
+  );
+}
+
+export function isCardAvailableForTier(
+  card: CreditCard,
+  tier: CreditTier
+): boolean {
+  return (
+    CREDIT_TIERS.indexOf(getCardCreditTier(card)) >= CREDIT_TIERS.indexOf(tier)
+  );
+}
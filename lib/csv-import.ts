@@ -0,0 +1,403 @@
+import { createHash } from "crypto";
+import {
+  detectSignConvention,
+  fromDebitCredit,
+  toCanonicalAmount,
+  type SignConvention,
+} from "./sign-convention";
+import type { Transaction } from "./spending";
+
+export type CsvField =
+  | "date"
+  | "description"
+  | "amount"
+  | "debit"
+  | "credit"
+  | "category"
+  | "account";
+
+// Which column (by index) holds each field. Money is either one signed
+// amount column or separate debit and credit columns; category and account
+// are optional.
+export interface CsvColumnMapping {
+  date: number;
+  description: number;
+  amount?: number | null;
+  debit?: number | null;
+  credit?: number | null;
+  category?: number | null;
+  account?: number | null;
+}
+
+// Field order of a date, whatever the separator ("/", "-" or ".")
+export type DateFormat =
+  "YYYY-MM-DD" | "MM/DD/YYYY" | "DD/MM/YYYY" | "MM/DD/YY" | "DD/MM/YY";
+
+export interface CsvAnalysis {
+  // Index of the header row in rows, or -1 when the file has none
+  headerRow: number;
+  headers: string[];
+  // Rows after the header
+  dataRows: string[][];
+  // Null when a required column couldn't be found
+  mapping: CsvColumnMapping | null;
+  dateFormat: DateFormat | null;
+  signConvention: SignConvention | null;
+}
+
+export interface CsvRowError {
+  row: number; // 1-based record number, counting the header
+  message: string;
+}
+
+export interface CsvTransactions {
+  transactions: Transaction[];
+  errors: CsvRowError[];
+}
+
+// Tried in order, so an ambiguous date like 03/04/2024 reads month first
+export const DATE_FORMATS: DateFormat[] = [
+  "YYYY-MM-DD",
+  "MM/DD/YYYY",
+  "DD/MM/YYYY",
+  "MM/DD/YY",
+  "DD/MM/YY",
+];
+
+// Header names for each field, most specific first
+const HEADER_PATTERNS: Record<CsvField, RegExp[]> = {
+  date: [/^(transaction|trans\.?) date$/i, /^date$/i, /date/i],
+  description: [
+    /^description$/i,
+    /merchant|payee/i,
+    /description|name|memo|details/i,
+  ],
+  amount: [/^amount$/i, /^(?!.*(debit|credit)).*amount/i],
+  debit: [/^debits?( amount)?$/i, /withdrawal|money out|paid out/i],
+  credit: [/^credits?( amount)?$/i, /deposit|money in|paid in/i],
+  category: [/category/i],
+  account: [/account|card/i],
+};
+
+// Bank exports sometimes start with a few lines of account details
+const HEADER_SEARCH_ROWS = 10;
+// Data rows looked at when detecting columns and date formats
+const SAMPLE_ROWS = 50;
+
+// Parse RFC 4180 CSV: quoted fields may contain commas, line breaks and
+// doubled quotes. Blank lines are dropped.
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  const input = text.replace(/^\uFEFF/, "");
+
+  const endRow = () => {
+    row.push(field);
+    if (row.some((value) => value.trim() !== "")) rows.push(row);
+    row = [];
+    field = "";
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\r" || char === "\n") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== "" || row.length > 0) endRow();
+  return rows;
+}
+
+// A date in the given format as YYYY-MM-DD, or null if it isn't one. Times
+// after the date ("2024-01-15T10:00:00", "01/15/2024 10:00") are ignored.
+export function parseDate(value: string, format: DateFormat): string | null {
+  const match = value
+    .trim()
+    .split(/[ T]/)[0]
+    .match(/^(\d{1,4})[/.-](\d{1,2})[/.-](\d{1,4})$/);
+  if (!match) return null;
+
+  const [first, second, third] = match.slice(1);
+  let year: string, month: string, day: string;
+  if (format === "YYYY-MM-DD") {
+    [year, month, day] = [first, second, third];
+  } else if (format.startsWith("MM")) {
+    [month, day, year] = [first, second, third];
+  } else {
+    [day, month, year] = [first, second, third];
+  }
+
+  const yearDigits = format.endsWith("YYYY") || format.startsWith("YYYY");
+  if (year.length !== (yearDigits ? 4 : 2)) return null;
+  if (year.length === 2) year = `20${year}`;
+
+  const date = new Date(Date.UTC(+year, +month - 1, +day));
+  if (date.getUTCMonth() !== +month - 1 || date.getUTCDate() !== +day) {
+    return null;
+  }
+  return date.toISOString().slice(0, 10);
+}
+
+// An amount like "1,234.56", "$-4.85", "(4.85)" or "4.85-" as a number
+export function parseAmount(value: string): number | null {
+  let text = value.trim().replace(/[$€£,\s]/g, "");
+  let negative = false;
+
+  if (/^\(.*\)$/.test(text)) {
+    negative = true;
+    text = text.slice(1, -1);
+  }
+  if (text.endsWith("-")) {
+    negative = !negative;
+    text = text.slice(0, -1);
+  }
+  if (!/^[+-]?(\d+\.?\d*|\.\d+)$/.test(text)) return null;
+
+  const amount = Math.round(parseFloat(text) * 100) / 100;
+  return negative ? -amount : amount;
+}
+
+// The first format every date parses as. Values that aren't a date in any
+// format, like a summary row, are left for the import to report.
+export function detectDateFormat(values: string[]): DateFormat | null {
+  const samples = values.filter(isDate);
+  if (samples.length === 0) return null;
+
+  return (
+    DATE_FORMATS.find((format) =>
+      samples.every((value) => parseDate(value, format) !== null)
+    ) || null
+  );
+}
+
+export function isDateFormat(value: string): value is DateFormat {
+  return (DATE_FORMATS as string[]).includes(value);
+}
+
+function isDate(value: string): boolean {
+  return DATE_FORMATS.some((format) => parseDate(value, format) !== null);
+}
+
+function findHeader(headers: string[], field: CsvField): number | null {
+  for (const pattern of HEADER_PATTERNS[field]) {
+    const index = headers.findIndex((header) => pattern.test(header.trim()));
+    if (index !== -1) return index;
+  }
+  return null;
+}
+
+// The row naming a date and an amount (or debit or credit) column, else the
+// first row if none of its cells look like data; -1 when the file starts
+// with data
+function detectHeaderRow(rows: string[][]): number {
+  const candidates = rows.slice(0, HEADER_SEARCH_ROWS);
+  const named = candidates.findIndex(
+    (row) =>
+      findHeader(row, "date") !== null &&
+      (["amount", "debit", "credit"] as const).some(
+        (field) => findHeader(row, field) !== null
+      )
+  );
+  if (named !== -1) return named;
+
+  const first = rows[0] || [];
+  const looksLikeData = first.some(
+    (value) => isDate(value) || parseAmount(value) !== null
+  );
+  return looksLikeData ? -1 : 0;
+}
+
+// Suggest a column for each field from the header names, falling back to
+// the column contents: the first column of dates, the first column of
+// amounts, and the column with the longest text for the description.
+// Debit and credit columns are only used when there's no amount column.
+function suggestMapping(
+  headers: string[],
+  samples: string[][]
+): CsvColumnMapping | null {
+  const columnValues = (index: number) =>
+    samples.map((row) => row[index] || "").filter((value) => value.trim());
+  const columns = headers.map((_, index) => index);
+
+  const date =
+    findHeader(headers, "date") ??
+    columns.find(
+      (i) => columnValues(i).length > 0 && columnValues(i).every(isDate)
+    );
+  let amount = findHeader(headers, "amount");
+  const debit = amount === null ? findHeader(headers, "debit") : null;
+  const credit = amount === null ? findHeader(headers, "credit") : null;
+  if (amount === null && debit === null && credit === null) {
+    amount =
+      columns.find(
+        (i) =>
+          i !== date &&
+          columnValues(i).length > 0 &&
+          columnValues(i).every((value) => parseAmount(value) !== null)
+      ) ?? null;
+  }
+  const money = [amount, debit, credit];
+  const description =
+    findHeader(headers, "description") ??
+    columns
+      .filter((i) => i !== date && !money.includes(i))
+      .sort(
+        (a, b) =>
+          columnValues(b).join("").length - columnValues(a).join("").length
+      )[0];
+
+  if (date == null || description == null || money.every((i) => i === null)) {
+    return null;
+  }
+
+  return {
+    date,
+    description,
+    amount,
+    debit,
+    credit,
+    category: findHeader(headers, "category"),
+    account: findHeader(headers, "account"),
+  };
+}
+
+// A row's amount with the file's own sign, or null if it has none
+function readAmount(row: string[], mapping: CsvColumnMapping): number | null {
+  if (mapping.amount != null) return parseAmount(row[mapping.amount] || "");
+
+  const readColumn = (index?: number | null) =>
+    index != null && row[index]?.trim() ? parseAmount(row[index]) : null;
+  return fromDebitCredit(readColumn(mapping.debit), readColumn(mapping.credit));
+}
+
+// Separate debit and credit columns say which way money moved; a single
+// amount column's sign is detected from its values
+export function detectCsvSignConvention(
+  dataRows: string[][],
+  mapping: CsvColumnMapping
+): SignConvention {
+  if (mapping.amount == null) return "debit_credit";
+
+  return detectSignConvention(
+    dataRows.flatMap((row) => {
+      const amount = readAmount(row, mapping);
+      return amount === null
+        ? []
+        : [{ amount, name: row[mapping.description] || "" }];
+    })
+  );
+}
+
+// Work out a file's layout: where the header is, which column holds what,
+// and how its dates are written
+export function analyzeCsv(text: string): CsvAnalysis {
+  const rows = parseCsv(text);
+  const headerRow = detectHeaderRow(rows);
+  const dataRows = rows.slice(headerRow + 1);
+  const width = Math.max(0, ...rows.map((row) => row.length));
+  const headers = Array.from(
+    { length: width },
+    (_, i) =>
+      (headerRow === -1 ? "" : rows[headerRow][i]?.trim()) || `Column ${i + 1}`
+  );
+
+  const samples = dataRows.slice(0, SAMPLE_ROWS);
+  const mapping = suggestMapping(headers, samples);
+  // Every row, since one day past the 12th settles month-first or day-first
+  const dateFormat = mapping
+    ? detectDateFormat(dataRows.map((row) => row[mapping.date] || ""))
+    : null;
+  const signConvention = mapping
+    ? detectCsvSignConvention(dataRows, mapping)
+    : null;
+
+  return { headerRow, headers, dataRows, mapping, dateFormat, signConvention };
+}
+
+// Stable ids, so importing an overlapping export again updates rows instead
+// of adding them twice. Identical rows in one file (two coffees on the same
+// day) are told apart by how many came before.
+function csvTransactionId(key: string, occurrence: number): string {
+  const hash = createHash("sha256")
+    .update(`${key}|${occurrence}`)
+    .digest("hex");
+  return `csv_${hash.slice(0, 24)}`;
+}
+
+// Turn data rows into transactions using the mapping. Rows without a valid
+// date, amount or description are reported instead of imported. Amounts are
+// converted from the file's sign convention to the canonical one.
+export function toCsvTransactions(
+  analysis: Pick<CsvAnalysis, "headerRow" | "dataRows">,
+  mapping: CsvColumnMapping,
+  dateFormat: DateFormat,
+  signConvention: SignConvention,
+  defaultAccount: string
+): CsvTransactions {
+  const transactions: Transaction[] = [];
+  const errors: CsvRowError[] = [];
+  const occurrences = new Map<string, number>();
+
+  analysis.dataRows.forEach((row, index) => {
+    const rowNumber = analysis.headerRow + index + 2;
+    const date = parseDate(row[mapping.date] || "", dateFormat);
+    const amount = readAmount(row, mapping);
+    const name = (row[mapping.description] || "").trim();
+
+    if (!date) {
+      errors.push({ row: rowNumber, message: "Invalid or missing date" });
+      return;
+    }
+    if (amount === null) {
+      errors.push({ row: rowNumber, message: "Invalid or missing amount" });
+      return;
+    }
+    if (!name) {
+      errors.push({ row: rowNumber, message: "Missing description" });
+      return;
+    }
+
+    const account =
+      (mapping.account != null && row[mapping.account]?.trim()) ||
+      defaultAccount;
+    const category =
+      mapping.category != null ? row[mapping.category]?.trim() : "";
+    const key = [account, date, amount.toFixed(2), name].join("|");
+    const occurrence = occurrences.get(key) || 0;
+    occurrences.set(key, occurrence + 1);
+
+    // The id is keyed on the file's amount, so re-importing with a
+    // corrected sign convention updates the same rows
+    transactions.push({
+      transaction_id: csvTransactionId(key, occurrence),
+      account_id: `csv:${account}`,
+      amount: toCanonicalAmount(amount, signConvention),
+      date,
+      name,
+      ...(category && { category: [category] }),
+    });
+  });
+
+  return { transactions, errors };
+}
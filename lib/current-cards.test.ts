@@ -0,0 +1,77 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import type { CreditCard } from "./cards";
+import { compareWithCurrentCards } from "./current-cards";
+import { buildCategorySpend, type Transaction } from "./spending";
+
+// 6% on up to $6,000 a year, then 1%
+const groceryCard: CreditCard = {
+  name: "Grocery Card",
+  annualFee: "0",
+  detailedRewards: {
+    raw: "",
+    parsed: {
+      categories: [
+        {
+          category: "groceries",
+          rate: "6",
+          currency: "cashback",
+          platform: null,
+          cap: 6000,
+          capPeriod: "year",
+          fallbackRate: "1",
+        },
+      ],
+    },
+  },
+};
+
+// $3,000 of groceries a month on one account, from January 2026
+function groceries(account: string, count: number): Transaction[] {
+  return Array.from({ length: count }, (_, index) => ({
+    transaction_id: `${account}-${index}`,
+    account_id: account,
+    amount: 3000,
+    date: `2026-${String(index + 1).padStart(2, "0")}-15`,
+    name: "Kroger",
+    personal_finance_category: {
+      primary: "FOOD_AND_DRINK",
+      detailed: "FOOD_AND_DRINK_GROCERIES",
+    },
+  }));
+}
+
+describe("compareWithCurrentCards", () => {
+  test("annualizes what a card linked for a few months earned", () => {
+    const transactions = groceries("card-account", 3);
+    const { currentCards } = compareWithCurrentCards(
+      [
+        {
+          card_name: groceryCard.name,
+          account_id: "card-account",
+          source: "manual",
+        },
+      ],
+      [groceryCard],
+      transactions,
+      buildCategorySpend(transactions)
+    );
+
+    // A quarter of the yearly cap at 6%, the rest at 1%, annualized: the
+    // same as a full year of $3,000 months
+    assert.equal(currentCards[0].actualSpend, 36000);
+    assert.equal(Math.round(currentCards[0].actualRewards!), 660);
+  });
+
+  test("leaves earnings empty for a card without a linked account", () => {
+    const transactions = groceries("other-account", 12);
+    const { currentCards } = compareWithCurrentCards(
+      [{ card_name: groceryCard.name, source: "manual" }],
+      [groceryCard],
+      transactions,
+      buildCategorySpend(transactions)
+    );
+
+    assert.equal(currentCards[0].actualRewards, null);
+  });
+});
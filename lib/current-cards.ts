@@ -0,0 +1,183 @@
+import type { CreditCard } from "./cards";
+import type { PlaidConnection, CurrentCard } from "./storage";
+import {
+  calculateCardValue,
+  type CardRewardValue,
+  type RewardOptions,
+} from "./rewards";
+import {
+  buildCategorySpend,
+  buildMonthlySpend,
+  type CategorySpend,
+  type Transaction,
+} from "./spending";
+import { evaluateWallet, type WalletResult } from "./wallet";
+
+export interface CurrentCardEarnings extends CurrentCard {
+  // Annualized spend and rewards on the linked account's own transactions;
+  // null for cards picked from the catalog without a linked account
+  actualSpend: number | null;
+  actualRewards: number | null;
+  annualFee: number;
+}
+
+export interface CardComparison {
+  name: string;
+  // Net value gained by adding this card to the current wallet
+  addGain: number;
+  // Net value gained by replacing the current wallet with this card alone
+  switchGain: number;
+}
+
+export interface CurrentWalletComparison {
+  currentCards: CurrentCardEarnings[];
+  currentWallet: WalletResult | null;
+  comparisons: CardComparison[];
+}
+
+// Words that appear in account and card names without identifying a product
+const STOPWORDS = new Set([
+  "the",
+  "card",
+  "credit",
+  "visa",
+  "mastercard",
+  "signature",
+  "world",
+  "from",
+  "by",
+]);
+
+// Minimum share of a catalog card's name tokens an account must match
+const MATCH_THRESHOLD = 0.6;
+
+function tokenize(value: string): string[] {
+  return value
+    .toLowerCase()
+    .replace(/[®™℠]/g, "")
+    .replace(/[^a-z0-9]+/g, " ")
+    .split(" ")
+    .filter((token) => token && !STOPWORDS.has(token));
+}
+
+// Match a linked account to a catalog card by name, using the institution
+// name to fill in the issuer ("Freedom Unlimited" at "Chase")
+export function matchAccountToCatalog(
+  accountName: string,
+  institutionName: string | undefined,
+  cards: CreditCard[]
+): CreditCard | null {
+  const accountTokens = new Set(
+    tokenize(`${institutionName || ""} ${accountName}`)
+  );
+  let best: { card: CreditCard; score: number } | null = null;
+
+  for (const card of cards) {
+    const cardTokens = tokenize(card.name);
+    if (cardTokens.length === 0) continue;
+
+    const matched = cardTokens.filter((token) => accountTokens.has(token));
+    const score = matched.length / cardTokens.length;
+
+    if (matched.length >= 2 && score >= MATCH_THRESHOLD) {
+      if (!best || score > best.score) best = { card, score };
+    }
+  }
+
+  return best ? best.card : null;
+}
+
+// Catalog cards behind the user's linked credit accounts
+export function detectCurrentCards(
+  connections: PlaidConnection[],
+  cards: CreditCard[]
+): CurrentCard[] {
+  const detected: CurrentCard[] = [];
+
+  connections.forEach((connection) => {
+    connection.accounts
+      .filter((account) => account.type === "credit")
+      .forEach((account) => {
+        const card = matchAccountToCatalog(
+          account.name,
+          connection.institution_name,
+          cards
+        );
+        if (card) {
+          detected.push({
+            card_name: card.name,
+            account_id: account.account_id,
+            source: "matched",
+          });
+        }
+      });
+  });
+
+  return detected;
+}
+
+export function compareWithCurrentCards(
+  currentCards: CurrentCard[],
+  cards: CreditCard[],
+  transactions: Transaction[],
+  spend: CategorySpend,
+  options: RewardOptions = {}
+): CurrentWalletComparison {
+  const byName = new Map(cards.map((card) => [card.name, card]));
+  const values = new Map<string, CardRewardValue>(
+    cards.map((card) => [card.name, calculateCardValue(card, spend, options)])
+  );
+
+  const earnings: CurrentCardEarnings[] = currentCards
+    .filter((current) => byName.has(current.card_name))
+    .map((current) => {
+      const card = byName.get(current.card_name)!;
+      const accountTransactions = current.account_id
+        ? transactions.filter((t) => t.account_id === current.account_id)
+        : [];
+
+      if (accountTransactions.length === 0) {
+        return {
+          ...current,
+          actualSpend: null,
+          actualRewards: null,
+          annualFee: values.get(card.name)!.annualFee,
+        };
+      }
+
+      const actual = calculateCardValue(
+        card,
+        buildCategorySpend(accountTransactions),
+        { ...options, monthlySpend: buildMonthlySpend(accountTransactions) }
+      );
+
+      return {
+        ...current,
+        actualSpend: actual.contributions.reduce((sum, c) => sum + c.spend, 0),
+        actualRewards: actual.annualRewards,
+        annualFee: actual.annualFee,
+      };
+    });
+
+  const walletValues = earnings.map((card) => values.get(card.card_name)!);
+  const currentWallet =
+    walletValues.length > 0 ? evaluateWallet(walletValues) : null;
+  const currentNet = currentWallet ? currentWallet.netAnnualValue : 0;
+  const held = new Set(earnings.map((card) => card.card_name));
+
+  const comparisons = cards
+    .filter((card) => !held.has(card.name))
+    .map((card) => {
+      const value = values.get(card.name)!;
+      const withCard = evaluateWallet([...walletValues, value]);
+
+      return {
+        name: card.name,
+        addGain: withCard.netAnnualValue - currentNet,
+        switchGain: value.netAnnualValue - currentNet,
+      };
+    })
+    .sort((a, b) => b.addGain - a.addGain);
+
+  return { currentCards: earnings, currentWallet, comparisons };
+}
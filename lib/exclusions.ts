@@ -0,0 +1,157 @@
+import { normalizeMerchantName } from "./merchant-guide";
+import type { TransactionExclusion } from "./storage";
+import type { Transaction } from "./spending";
+
+// transfer: money moved between the user's own accounts; card_payment: a
+// checking account paying off a card whose purchases are already counted;
+// refund: a purchase later returned; manual: excluded by the user
+export type ExclusionReason = "transfer" | "card_payment" | "refund" | "manual";
+
+export interface ExcludedTransaction {
+  transaction: Transaction;
+  reason: ExclusionReason;
+  // False when the user excluded it themselves
+  automatic: boolean;
+}
+
+export interface TransactionExclusions<T extends Transaction> {
+  // Everything that still counts, inflows included
+  included: T[];
+  excluded: ExcludedTransaction[];
+}
+
+const TRANSFER_PRIMARY_CATEGORIES = ["TRANSFER_IN", "TRANSFER_OUT"];
+const CARD_PAYMENT_DETAILED_CATEGORY = "LOAN_PAYMENTS_CREDIT_CARD_PAYMENT";
+// Only explicit card-payment wording: "autopay" and "epay" also appear on
+// phone, insurance and streaming bills, which are real spending
+const CARD_PAYMENT_NAME = /payment\W+thank you|credit card payment|crd pmt/i;
+
+// A transfer's two legs post a few days apart
+const TRANSFER_WINDOW_DAYS = 3;
+// How far back a refund is matched to the purchase it returns
+const REFUND_WINDOW_DAYS = 90;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function daysBetween(a: string, b: string): number {
+  return (new Date(b).getTime() - new Date(a).getTime()) / DAY_MS;
+}
+
+function sameAmount(a: number, b: number): boolean {
+  return Math.abs(a - b) < 0.005;
+}
+
+// What Plaid's own categories say about a transaction
+function categoryReason(transaction: Transaction): ExclusionReason | null {
+  const pfc = transaction.personal_finance_category;
+  if (pfc?.detailed === CARD_PAYMENT_DETAILED_CATEGORY) return "card_payment";
+
+  const category = transaction.category || [];
+  if (category[0] === "Payment" && category.includes("Credit Card")) {
+    return "card_payment";
+  }
+
+  if (CARD_PAYMENT_NAME.test(transaction.name)) return "card_payment";
+
+  if (
+    (pfc && TRANSFER_PRIMARY_CATEGORIES.includes(pfc.primary)) ||
+    category[0] === "Transfer"
+  ) {
+    return "transfer";
+  }
+
+  return null;
+}
+
+// Outflows that shouldn't count as spending, keyed by transaction_id.
+// Besides Plaid's categories, an outflow matched by an equal inflow on
+// another of the user's accounts within a few days is a transfer, and a
+// purchase matched by a later equal credit from the same merchant was
+// refunded.
+export function detectExclusions(
+  transactions: Transaction[]
+): Map<string, ExclusionReason> {
+  const reasons = new Map<string, ExclusionReason>();
+  const outflows = transactions
+    .filter((t) => t.amount > 0)
+    .sort((a, b) => a.date.localeCompare(b.date));
+  const inflows = transactions
+    .filter((t) => t.amount < 0)
+    .sort((a, b) => a.date.localeCompare(b.date));
+  const matchedInflows = new Set<string>();
+
+  outflows.forEach((outflow) => {
+    const reason = categoryReason(outflow);
+    if (reason) reasons.set(outflow.transaction_id, reason);
+  });
+
+  outflows.forEach((outflow) => {
+    const inflow = inflows.find(
+      (candidate) =>
+        !matchedInflows.has(candidate.transaction_id) &&
+        candidate.account_id !== outflow.account_id &&
+        sameAmount(-candidate.amount, outflow.amount) &&
+        Math.abs(daysBetween(outflow.date, candidate.date)) <=
+          TRANSFER_WINDOW_DAYS
+    );
+    if (!inflow) return;
+
+    matchedInflows.add(inflow.transaction_id);
+    if (!reasons.has(outflow.transaction_id)) {
+      reasons.set(outflow.transaction_id, "transfer");
+    }
+  });
+
+  inflows
+    .filter((inflow) => !matchedInflows.has(inflow.transaction_id))
+    .forEach((refund) => {
+      const merchant = normalizeMerchantName(refund.name);
+      if (!merchant) return;
+
+      // The most recent matching purchase before the refund
+      const purchase = [...outflows]
+        .reverse()
+        .find(
+          (candidate) =>
+            !reasons.has(candidate.transaction_id) &&
+            sameAmount(candidate.amount, -refund.amount) &&
+            normalizeMerchantName(candidate.name) === merchant &&
+            daysBetween(candidate.date, refund.date) >= 0 &&
+            daysBetween(candidate.date, refund.date) <= REFUND_WINDOW_DAYS
+        );
+      if (purchase) reasons.set(purchase.transaction_id, "refund");
+    });
+
+  return reasons;
+}
+
+// Split transactions into what counts as spending and what doesn't, with
+// the user's corrections taking precedence over detection
+export function applyExclusions<T extends Transaction>(
+  transactions: T[],
+  overrides: TransactionExclusion[] = []
+): TransactionExclusions<T> {
+  const detected = detectExclusions(transactions);
+  const userChoices = new Map(
+    overrides.map((override) => [override.transaction_id, override.excluded])
+  );
+  const included: T[] = [];
+  const excluded: ExcludedTransaction[] = [];
+
+  transactions.forEach((transaction) => {
+    const reason = detected.get(transaction.transaction_id);
+    const choice = userChoices.get(transaction.transaction_id);
+
+    if (choice === false || (choice === undefined && !reason)) {
+      included.push(transaction);
+      return;
+    }
+
+    excluded.push({
+      transaction,
+      reason: reason || "manual",
+      automatic: choice === undefined,
+    });
+  });
+
+  return { included, excluded };
+}
@@ -0,0 +1,127 @@
+import type { CreditCard } from "./cards";
+
+// Structured terms pulled from the intro offer tooltip, e.g.
+// "Earn $200 after spending $500 in the first 3 months"
+export interface IntroOfferTerms {
+  bonusAmount: number | null;
+  bonusCurrency: "dollars" | "points" | "miles" | null;
+  minimumSpend: number | null;
+  windowMonths: number | null;
+}
+
+export type BonusFeasibilityStatus = "attainable" | "unattainable" | "unknown";
+
+export interface BonusFeasibility {
+  status: BonusFeasibilityStatus;
+  minimumSpend: number | null;
+  windowMonths: number | null;
+  // Months of organic spending needed to reach the minimum spend
+  monthsToReach: number | null;
+}
+
+const AMOUNT = "(\\d{1,3}(?:,\\d{3})*(?:\\.\\d+)?)";
+
+const WORD_NUMBERS: { [word: string]: number } = {
+  one: 1,
+  two: 2,
+  three: 3,
+  four: 4,
+  five: 5,
+  six: 6,
+  twelve: 12,
+};
+
+function parseAmount(value: string): number {
+  return parseFloat(value.replace(/,/g, ""));
+}
+
+function parseWindowMonths(text: string): number | null {
+  const months = text.match(/(\d+|[a-z]+)\s*(?:billing\s+)?months?/i);
+  if (months) {
+    const value = /^\d+$/.test(months[1])
+      ? parseInt(months[1], 10)
+      : WORD_NUMBERS[months[1].toLowerCase()];
+    if (value) return value;
+  }
+
+  const days = text.match(/(\d+)\s*days/i);
+  if (days) return Math.max(1, Math.round(parseInt(days[1], 10) / 30));
+
+  return null;
+}
+
+export function parseIntroOfferTerms(raw?: string | null): IntroOfferTerms {
+  const terms: IntroOfferTerms = {
+    bonusAmount: null,
+    bonusCurrency: null,
+    minimumSpend: null,
+    windowMonths: null,
+  };
+  if (!raw) return terms;
+
+  const bonusPoints = raw.match(
+    new RegExp(`${AMOUNT}\\s*(?:bonus\\s+)?(points|miles)`, "i")
+  );
+  const bonusDollars = raw.match(
+    new RegExp(`(?:earn|get|enjoy|receive)[^$]*?\\$${AMOUNT}`, "i")
+  );
+
+  if (bonusPoints) {
+    terms.bonusAmount = parseAmount(bonusPoints[1]);
+    terms.bonusCurrency = bonusPoints[2].toLowerCase() as "points" | "miles";
+  } else if (bonusDollars) {
+    terms.bonusAmount = parseAmount(bonusDollars[1]);
+    terms.bonusCurrency = "dollars";
+  }
+
+  // The minimum spend follows "spend"/"spending"/"purchases of"
+  const spend = raw.match(
+    new RegExp(
+      `(?:spend(?:ing)?|purchases\\s+of)\\s*(?:at\\s+least\\s*)?\\$${AMOUNT}`,
+      "i"
+    )
+  );
+  if (spend) {
+    terms.minimumSpend = parseAmount(spend[1]);
+    terms.windowMonths = parseWindowMonths(raw.slice(spend.index));
+  }
+
+  return terms;
+}
+
+export function getIntroOfferTerms(card: CreditCard): IntroOfferTerms {
+  return (
+    card.detailedIntroOffer?.parsed ||
+    parseIntroOfferTerms(card.detailedIntroOffer?.raw)
+  );
+}
+
+// Compare the minimum spend with the user's average monthly spending, so a
+// bonus only counts when organic spending would reach it in time
+export function assessBonusFeasibility(
+  terms: IntroOfferTerms,
+  monthlySpend: number
+): BonusFeasibility {
+  const { minimumSpend, windowMonths } = terms;
+
+  if (minimumSpend === null) {
+    return {
+      status: "unknown",
+      minimumSpend,
+      windowMonths,
+      monthsToReach: null,
+    };
+  }
+
+  const monthsToReach =
+    monthlySpend > 0 ? Math.ceil(minimumSpend / monthlySpend) : null;
+
+  let status: BonusFeasibilityStatus = "unknown";
+  if (monthsToReach === null) {
+    status = "unattainable";
+  } else if (windowMonths !== null) {
+    status = monthsToReach <= windowMonths ? "attainable" : "unattainable";
+  }
+
+  return { status, minimumSpend, windowMonths, monthsToReach };
+}
@@ -0,0 +1,166 @@
+import issuerRules from "./config/issuer-rules.json";
+import type { CreditCard } from "./cards";
+import type { CardHistoryEntry } from "./storage";
+
+export type IssuerRuleType =
+  | "max_recent_openings"
+  | "holds_card"
+  | "bonus_received";
+
+// any_issuer and same_issuer apply to max_recent_openings; same_card and
+// same_family (cards whose name contains cardPattern) to the others
+export type IssuerRuleScope =
+  | "any_issuer"
+  | "same_issuer"
+  | "same_card"
+  | "same_family";
+
+// ineligible: the application would be declined; no_bonus: approval is
+// possible but the sign-up bonus won't be paid
+export type IssuerRuleEffect = "ineligible" | "no_bonus";
+
+export interface IssuerRule {
+  id: string;
+  // Matched against card names, like valuation programs
+  issuer: string;
+  cardPattern?: string;
+  type: IssuerRuleType;
+  scope: IssuerRuleScope;
+  limit?: number;
+  // Look-back window; null or missing means ever
+  months?: number | null;
+  effect: IssuerRuleEffect;
+  description: string;
+}
+
+export interface RuleViolation {
+  ruleId: string;
+  effect: IssuerRuleEffect;
+  description: string;
+}
+
+export interface CardEligibility {
+  eligible: boolean;
+  bonusEligible: boolean;
+  violations: RuleViolation[];
+}
+
+export const ISSUER_RULES = issuerRules.rules as IssuerRule[];
+
+// "Citi Double Cash® Card" and "Citi Double Cash" are the same card
+function normalizeCardName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[®™℠]/g, "")
+    .replace(/[^a-z0-9]+/g, " ")
+    .replace(/\b(the|card|from)\b/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function withinMonths(
+  date: string | null | undefined,
+  months: number | null | undefined,
+  now: Date
+): boolean {
+  if (!date) return false;
+  if (months === null || months === undefined) return true;
+
+  const since = new Date(now);
+  since.setMonth(since.getMonth() - months);
+  return new Date(date) >= since;
+}
+
+function isIssuer(entry: CardHistoryEntry, issuer: string): boolean {
+  return (entry.issuer || entry.card_name).toLowerCase().includes(issuer);
+}
+
+function inScope(
+  rule: IssuerRule,
+  card: CreditCard,
+  entry: CardHistoryEntry
+): boolean {
+  switch (rule.scope) {
+    case "any_issuer":
+      // Business cards generally don't show up on personal credit reports
+      return !entry.business;
+    case "same_issuer":
+      return isIssuer(entry, rule.issuer);
+    case "same_card":
+      return (
+        normalizeCardName(entry.card_name) === normalizeCardName(card.name)
+      );
+    case "same_family":
+      return (
+        isIssuer(entry, rule.issuer) &&
+        entry.card_name.toLowerCase().includes(rule.cardPattern || "")
+      );
+  }
+}
+
+function isViolated(
+  rule: IssuerRule,
+  card: CreditCard,
+  history: CardHistoryEntry[],
+  now: Date
+): boolean {
+  const entries = history.filter((entry) => inScope(rule, card, entry));
+
+  switch (rule.type) {
+    case "max_recent_openings":
+      return (
+        entries.filter((entry) =>
+          withinMonths(entry.opened_at, rule.months, now)
+        ).length >= (rule.limit ?? Infinity)
+      );
+    case "holds_card":
+      return entries.some((entry) => !entry.closed_at);
+    case "bonus_received":
+      return entries.some((entry) =>
+        withinMonths(entry.bonus_received_at, rule.months, now)
+      );
+  }
+}
+
+// Check a card against every issuer rule that covers it, given the user's
+// card history
+export function evaluateCardEligibility(
+  card: CreditCard,
+  history: CardHistoryEntry[],
+  rules: IssuerRule[] = ISSUER_RULES,
+  now: Date = new Date()
+): CardEligibility {
+  const name = card.name.toLowerCase();
+  const violations = rules
+    .filter(
+      (rule) =>
+        name.includes(rule.issuer) &&
+        (!rule.cardPattern || name.includes(rule.cardPattern))
+    )
+    .filter((rule) => isViolated(rule, card, history, now))
+    .map((rule) => ({
+      ruleId: rule.id,
+      effect: rule.effect,
+      description: rule.description,
+    }));
+
+  const eligible = !violations.some((v) => v.effect === "ineligible");
+
+  return {
+    eligible,
+    bonusEligible: eligible && !violations.some((v) => v.effect === "no_bonus"),
+    violations,
+  };
+}
+
+// Cards the user can currently be approved for
+export function filterApprovableCards(
+  cards: CreditCard[],
+  history: CardHistoryEntry[]
+): CreditCard[] {
+  if (history.length === 0) return cards;
+
+  return cards.filter(
+    (card) => evaluateCardEligibility(card, history).eligible
+  );
+}
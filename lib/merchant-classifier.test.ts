@@ -0,0 +1,207 @@
+import { after, before, beforeEach, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import type { RewardCategory } from "./cards";
+import type { MerchantClassifier } from "./merchant-classifier";
+import type { Transaction } from "./spending";
+
+// Storage reads data/ under the working directory when it is first
+// imported, so every module that uses it is loaded from a scratch directory
+// in before()
+type Storage = typeof import("./storage").storage;
+type Classifiers = typeof import("./merchant-classifier");
+
+const cwd = process.cwd();
+const scratch = fs.mkdtempSync(path.join(os.tmpdir(), "merchant-classifier-"));
+let storage: Storage;
+let classifiers: Classifiers;
+
+before(async () => {
+  process.chdir(scratch);
+  ({ storage } = await import("./storage"));
+  classifiers = await import("./merchant-classifier");
+});
+
+after(() => {
+  process.chdir(cwd);
+  fs.rmSync(scratch, { recursive: true, force: true });
+});
+
+beforeEach(() => {
+  fs.rmSync(path.join(scratch, "data"), { recursive: true, force: true });
+  fs.mkdirSync(path.join(scratch, "data"));
+});
+
+// A transaction neither mapping table places
+function uncategorized(id: string, name: string): Transaction {
+  return {
+    transaction_id: id,
+    account_id: "account",
+    amount: 10,
+    date: "2026-10-01",
+    name,
+  };
+}
+
+// The stub's answers, recording each merchant it was asked about. Throws
+// for merchants in `failOn`.
+function countingClassifier(failOn: string[] = []) {
+  const calls: string[] = [];
+  const stub = classifiers.createStubClassifier();
+  const classifier: MerchantClassifier = {
+    name: "counting",
+    async classify(merchant) {
+      calls.push(merchant);
+      if (failOn.includes(merchant)) throw new Error("model unavailable");
+      return stub.classify(merchant);
+    },
+  };
+  return { classifier, calls };
+}
+
+function categoriesOf(transactions: Transaction[]) {
+  return transactions.map((t) => t.reward_category ?? null);
+}
+
+describe("createStubClassifier", () => {
+  test("gives the same answer offline for the same merchant", async () => {
+    const stub = classifiers.createStubClassifier();
+    const answers: Array<[string, RewardCategory]> = [
+      ["joe's pizza", "dining"],
+      ["kroger", "groceries"],
+      ["shell oil", "gas"],
+      ["lyft ride", "transit"],
+      ["netflix com", "streaming"],
+      ["marriott downtown", "travel"],
+      ["etsy", "online-retail"],
+      ["acme hardware", "general"],
+    ];
+
+    for (const [merchant, category] of answers) {
+      assert.equal(await stub.classify(merchant), category);
+      assert.equal(await stub.classify(merchant), category);
+    }
+  });
+});
+
+describe("classifyUncategorized", () => {
+  test("classifies each normalized merchant once", async () => {
+    const { classifier, calls } = countingClassifier();
+    const transactions = [
+      uncategorized("t1", "JOE'S PIZZA #1234"),
+      uncategorized("t2", "Joe's Pizza 5678"),
+      uncategorized("t3", "ACME HARDWARE"),
+    ];
+
+    const result = await classifiers.classifyUncategorized(
+      transactions,
+      classifier
+    );
+
+    assert.deepEqual(calls.sort(), ["acme hardware", "joe's pizza"]);
+    assert.deepEqual(categoriesOf(result), ["dining", "dining", "general"]);
+  });
+
+  test("leaves transactions the mapping tables place alone", async () => {
+    const { classifier, calls } = countingClassifier();
+    const transaction: Transaction = {
+      ...uncategorized("t1", "Joe's Pizza"),
+      category: ["Shops", "Supermarkets and Groceries"],
+    };
+
+    const [result] = await classifiers.classifyUncategorized(
+      [transaction],
+      classifier
+    );
+
+    assert.equal(calls.length, 0);
+    assert.equal(result, transaction);
+  });
+
+  test("reuses cached classifications on later runs", async () => {
+    const first = countingClassifier();
+    await classifiers.classifyUncategorized(
+      [uncategorized("t1", "Joe's Pizza")],
+      first.classifier
+    );
+
+    const cached = JSON.parse(
+      fs.readFileSync(
+        path.join(scratch, "data", "merchant_classifications.json"),
+        "utf8"
+      )
+    );
+    assert.deepEqual(
+      cached.map(
+        (entry: { merchant: string; category: string; provider: string }) => [
+          entry.merchant,
+          entry.category,
+          entry.provider,
+        ]
+      ),
+      [["joe's pizza", "dining", "counting"]]
+    );
+
+    const second = countingClassifier();
+    const result = await classifiers.classifyUncategorized(
+      [uncategorized("t2", "JOE'S PIZZA #99")],
+      second.classifier
+    );
+    assert.equal(second.calls.length, 0);
+    assert.deepEqual(categoriesOf(result), ["dining"]);
+
+    // The cache still applies with classification turned off
+    const offline = await classifiers.classifyUncategorized(
+      [uncategorized("t3", "Joe's Pizza")],
+      null
+    );
+    assert.deepEqual(categoriesOf(offline), ["dining"]);
+  });
+
+  test("classifies a limited number of new merchants per run", async () => {
+    const limit = classifiers.MAX_CLASSIFICATIONS_PER_RUN;
+    const transactions = Array.from({ length: limit + 5 }, (_, index) =>
+      uncategorized(`t${index}`, `Vendor ${index}`)
+    );
+
+    const first = countingClassifier();
+    const result = await classifiers.classifyUncategorized(
+      transactions,
+      first.classifier
+    );
+    assert.equal(first.calls.length, limit);
+    assert.equal(
+      result.filter((transaction) => transaction.reward_category).length,
+      limit
+    );
+
+    // The rest are picked up by the next run
+    const second = countingClassifier();
+    await classifiers.classifyUncategorized(transactions, second.classifier);
+    assert.equal(second.calls.length, 5);
+  });
+
+  test("stops at a classifier error without failing", async (t) => {
+    t.mock.method(console, "error", () => {});
+    const { classifier, calls } = countingClassifier(["acme hardware"]);
+    const transactions = [
+      uncategorized("t1", "Joe's Pizza"),
+      uncategorized("t2", "Acme Hardware"),
+      uncategorized("t3", "Kroger"),
+    ];
+
+    const result = await classifiers.classifyUncategorized(
+      transactions,
+      classifier
+    );
+
+    assert.deepEqual(calls, ["joe's pizza", "acme hardware"]);
+    assert.deepEqual(categoriesOf(result), ["dining", null, null]);
+    assert.deepEqual(
+      storage.getMerchantClassifications().map((entry) => entry.merchant),
+      ["joe's pizza"]
+    );
+  });
+});
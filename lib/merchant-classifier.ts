@@ -0,0 +1,173 @@
+import { Ollama } from "ollama";
+import {
+  isRewardCategory,
+  REWARD_CATEGORIES,
+  type RewardCategory,
+} from "./cards";
+import { isUncategorized, type CategorizedTransaction } from "./categories";
+import { normalizeMerchantName } from "./merchant-guide";
+import { storage, type MerchantClassification } from "./storage";
+
+// Assigns a reward category to a normalized merchant name, or null when it
+// can't tell
+export interface MerchantClassifier {
+  name: string;
+  classify(merchant: string): Promise<RewardCategory | null>;
+}
+
+const DEFAULT_OLLAMA_HOST = "http://localhost:11434";
+const DEFAULT_OLLAMA_MODEL = "qwen2.5:7b";
+
+// Uncached merchants classified per request, so a first load with hundreds
+// of new merchants doesn't block on the model; the rest are picked up later
+export const MAX_CLASSIFICATIONS_PER_RUN = 25;
+
+export function createOllamaClassifier(
+  host: string = process.env.OLLAMA_HOST || DEFAULT_OLLAMA_HOST,
+  model: string = process.env.OLLAMA_MODEL || DEFAULT_OLLAMA_MODEL
+): MerchantClassifier {
+  const ollama = new Ollama({ host });
+
+  return {
+    name: `ollama:${model}`,
+    async classify(merchant) {
+      const prompt = `
+Classify the merchant below into the credit card reward category a purchase there most likely earns.
+Return ONLY a valid JSON object: { "category": string }
+
+Rules:
+- category must be one of (${REWARD_CATEGORIES.join(", ")})
+- Restaurants, bars, cafes and food delivery are "dining"
+- Supermarkets are "groceries"; warehouse clubs and superstores are "general"
+- Rideshare, public transit, parking and tolls are "transit"
+- Airlines, hotels and car rentals are "travel"
+- Use "general" when the merchant is unknown or fits no other category
+
+Merchant:
+"${merchant}"
+`;
+
+      const response = await ollama.chat({
+        model,
+        messages: [
+          {
+            role: "system",
+            content:
+              "You are a transaction categorization expert. Return ONLY valid JSON.",
+          },
+          { role: "user", content: prompt },
+        ],
+        stream: false,
+      });
+
+      const jsonMatch = response.message.content.trim().match(/\{[\s\S]*\}/);
+      if (!jsonMatch) return null;
+
+      const { category } = JSON.parse(jsonMatch[0]);
+      return typeof category === "string" && isRewardCategory(category)
+        ? category
+        : null;
+    },
+  };
+}
+
+const STUB_KEYWORDS: Array<[RegExp, RewardCategory]> = [
+  [/restaurant|cafe|coffee|pizza|grill|bar\b|diner|eats|doordash/, "dining"],
+  [/market|grocery|foods|safeway|kroger|trader joe/, "groceries"],
+  [/shell|chevron|exxon|fuel|gas\b/, "gas"],
+  [/uber|lyft|transit|metro|parking|toll/, "transit"],
+  [/netflix|spotify|hulu|disney|youtube/, "streaming"],
+  [/airline|airways|hotel|marriott|hilton|airbnb/, "travel"],
+  [/amazon|ebay|etsy/, "online-retail"],
+];
+
+// Keyword matching with no network access, for offline development and
+// tests; always gives the same answer for the same merchant
+export function createStubClassifier(): MerchantClassifier {
+  return {
+    name: "stub",
+    async classify(merchant) {
+      const match = STUB_KEYWORDS.find(([pattern]) => pattern.test(merchant));
+      return match ? match[1] : "general";
+    },
+  };
+}
+
+// MERCHANT_CLASSIFIER selects the provider: "ollama" (default), "stub", or
+// "off" to leave uncategorized transactions as general spend
+export function getMerchantClassifier(): MerchantClassifier | null {
+  switch (process.env.MERCHANT_CLASSIFIER) {
+    case "off":
+      return null;
+    case "stub":
+      return createStubClassifier();
+    default:
+      return createOllamaClassifier();
+  }
+}
+
+// Fill in the reward category of transactions the mapping tables can't
+// place, from the per-merchant cache first and the classifier for merchants
+// not seen before. If the classifier fails, the remaining merchants stay
+// uncategorized until the next run.
+export async function classifyUncategorized<
+  T extends CategorizedTransaction & { name: string },
+>(
+  transactions: T[],
+  classifier: MerchantClassifier | null = getMerchantClassifier()
+): Promise<T[]> {
+  const merchants = new Set(
+    transactions
+      .filter(isUncategorized)
+      .map((transaction) => normalizeMerchantName(transaction.name))
+      .filter(Boolean)
+  );
+  if (merchants.size === 0) return transactions;
+
+  const categories = new Map(
+    storage
+      .getMerchantClassifications()
+      .map((entry) => [entry.merchant, entry.category])
+  );
+  const classified: MerchantClassification[] = [];
+
+  if (classifier) {
+    const uncached = Array.from(merchants)
+      .filter((merchant) => !categories.has(merchant))
+      .slice(0, MAX_CLASSIFICATIONS_PER_RUN);
+
+    for (const merchant of uncached) {
+      try {
+        const category = await classifier.classify(merchant);
+        if (!category) continue;
+
+        categories.set(merchant, category);
+        classified.push({
+          merchant,
+          category,
+          provider: classifier.name,
+          classified_at: new Date().toISOString(),
+        });
+      } catch (error) {
+        console.error(
+          `Error classifying merchants with ${classifier.name}:`,
+          error
+        );
+        break;
+      }
+    }
+  }
+
+  if (classified.length > 0) {
+    storage.saveMerchantClassifications(classified);
+  }
+
+  return transactions.map((transaction) => {
+    if (!isUncategorized(transaction)) return transaction;
+
+    const category = categories.get(normalizeMerchantName(transaction.name));
+    return category
+      ? { ...transaction, reward_category: category }
+      : transaction;
+  });
+}
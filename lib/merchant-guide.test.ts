@@ -0,0 +1,89 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import type { CardRewardCategory, CreditCard } from "./cards";
+import { buildMerchantGuide, rankWalletForSpend } from "./merchant-guide";
+import type { Transaction } from "./spending";
+
+function makeCard(name: string, categories: CardRewardCategory[]): CreditCard {
+  return {
+    name,
+    annualFee: "0",
+    detailedRewards: { raw: "", parsed: { categories } },
+  };
+}
+
+// 5% on gas in the first quarter only, 1% otherwise
+const rotating = makeCard("Rotating", [
+  {
+    category: "gas",
+    rate: "5",
+    currency: "cashback",
+    platform: null,
+    quarters: [1],
+  },
+]);
+const flat = makeCard("Flat", [
+  { category: "general", rate: "1.5", currency: "cashback", platform: null },
+]);
+
+// $100 of gas on the 10th of every month of 2026
+const gas: Transaction[] = Array.from({ length: 12 }, (_, index) => ({
+  transaction_id: `gas-${index}`,
+  account_id: "account",
+  amount: 100,
+  date: `2026-${String(index + 1).padStart(2, "0")}-10`,
+  name: "Shell Oil",
+  personal_finance_category: {
+    primary: "TRANSPORTATION",
+    detailed: "TRANSPORTATION_GAS",
+  },
+}));
+
+describe("buildMerchantGuide", () => {
+  test("values each purchase at the rate for its own date", () => {
+    const [route] = buildMerchantGuide(
+      gas,
+      [rotating, flat],
+      {},
+      20,
+      new Date(2026, 1, 15)
+    );
+
+    // Three months at 5% and nine at 1%, whatever today's quarter is
+    assert.equal(route.best.card, "Rotating");
+    assert.equal(route.best.rate, 5);
+    assert.equal(Math.round(route.best.value), 24);
+    assert.equal(Math.round(route.runnerUp!.value), 18);
+  });
+
+  test("picks the card to use by today's rate", () => {
+    const [route] = buildMerchantGuide(
+      gas,
+      [rotating, flat],
+      {},
+      20,
+      new Date(2026, 4, 15)
+    );
+
+    assert.equal(route.best.card, "Flat");
+    assert.equal(route.runnerUp!.card, "Rotating");
+    assert.equal(route.runnerUp!.rate, 1);
+    assert.equal(Math.round(route.runnerUp!.value), 24);
+  });
+});
+
+describe("rankWalletForSpend", () => {
+  test("counts a rotating rate for its quarter of a yearly bill", () => {
+    for (const now of [new Date(2026, 1, 15), new Date(2026, 4, 15)]) {
+      const ranked = rankWalletForSpend([rotating, flat], "gas", 1200, {}, now);
+
+      assert.deepEqual(
+        ranked.map((card) => [card.card, Math.round(card.value)]),
+        [
+          ["Rotating", 24],
+          ["Flat", 18],
+        ]
+      );
+    }
+  });
+});
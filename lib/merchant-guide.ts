@@ -0,0 +1,183 @@
+import type { CreditCard, RewardCategory } from "./cards";
+import { toRewardCategory } from "./categories";
+import {
+  calculateCardValue,
+  getEarnRate,
+  valuePerDollar,
+  type EarnRate,
+  type RewardOptions,
+} from "./rewards";
+import { getSpendingTransactions, type Transaction } from "./spending";
+
+export interface MerchantCardValue extends EarnRate {
+  card: string;
+  // Rewards this card would have earned on the merchant's spend, each
+  // purchase at the rate for its own date; the rate is today's
+  value: number;
+}
+
+export interface MerchantRoute {
+  merchant: string;
+  category: RewardCategory;
+  transactionCount: number;
+  spend: number;
+  best: MerchantCardValue;
+  // Next best card in the wallet, to show what picking the wrong one costs
+  runnerUp: MerchantCardValue | null;
+}
+
+const DEFAULT_TOP_MERCHANTS = 20;
+
+// Collapse store numbers and processor noise so "STARBUCKS #1234" and
+// "Starbucks 5678" land on the same merchant
+export function normalizeMerchantName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/#\s*\d+/g, "")
+    .replace(/\b\d{3,}\b/g, "")
+    .replace(/[^a-z0-9&' ]+/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+// For each of the user's top merchants by spend, the wallet card that earns
+// the most there today and what each card was worth over the transactions'
+// period. Caps are ignored, since the guide is about which card to reach
+// for.
+export function buildMerchantGuide(
+  transactions: Transaction[],
+  wallet: CreditCard[],
+  options: RewardOptions = {},
+  topMerchants: number = DEFAULT_TOP_MERCHANTS,
+  now: Date = new Date()
+): MerchantRoute[] {
+  if (wallet.length === 0) return [];
+
+  const merchants = new Map<
+    string,
+    {
+      names: Map<string, number>;
+      categories: Map<RewardCategory, number>;
+      transactions: Transaction[];
+      spend: number;
+    }
+  >();
+
+  getSpendingTransactions(transactions).forEach((transaction) => {
+    const key = normalizeMerchantName(transaction.name);
+    if (!key) return;
+
+    const merchant = merchants.get(key) || {
+      names: new Map(),
+      categories: new Map(),
+      transactions: [] as Transaction[],
+      spend: 0,
+    };
+    const category = toRewardCategory(transaction);
+
+    merchant.names.set(
+      transaction.name,
+      (merchant.names.get(transaction.name) || 0) + 1
+    );
+    merchant.categories.set(
+      category,
+      (merchant.categories.get(category) || 0) + transaction.amount
+    );
+    merchant.transactions.push(transaction);
+    merchant.spend += transaction.amount;
+    merchants.set(key, merchant);
+  });
+
+  return Array.from(merchants.values())
+    .sort((a, b) => b.spend - a.spend)
+    .slice(0, topMerchants)
+    .map((merchant) => {
+      const category = mostCommon(merchant.categories);
+      const ranked = rankWalletForTransactions(
+        wallet,
+        category,
+        merchant.transactions,
+        options,
+        now
+      );
+
+      return {
+        merchant: mostCommon(merchant.names),
+        category,
+        transactionCount: merchant.transactions.length,
+        spend: merchant.spend,
+        best: ranked[0],
+        runnerUp: ranked[1] || null,
+      };
+    });
+}
+
+// Wallet cards for past purchases in one category: best first by what they
+// earn today, with each purchase valued at the rate for its own date, so a
+// rotating 5% quarter only counts for the purchases made in it
+export function rankWalletForTransactions(
+  wallet: CreditCard[],
+  category: RewardCategory,
+  transactions: Transaction[],
+  options: RewardOptions = {},
+  now: Date = new Date()
+): MerchantCardValue[] {
+  const perDollarNow = new Map<string, number>();
+
+  return wallet
+    .map((card) => {
+      const earnRate = getEarnRate(card, category, options, now);
+      perDollarNow.set(card.name, valuePerDollar(card, earnRate, options));
+      return {
+        ...earnRate,
+        card: card.name,
+        value: transactions.reduce((sum, transaction) => {
+          const rate = getEarnRate(
+            card,
+            category,
+            options,
+            new Date(`${transaction.date}T00:00:00`)
+          );
+          return sum + transaction.amount * valuePerDollar(card, rate, options);
+        }, 0),
+      };
+    })
+    .sort(
+      (a, b) =>
+        perDollarNow.get(b.card)! - perDollarNow.get(a.card)! ||
+        b.value - a.value
+    );
+}
+
+// Wallet cards by what they earn on a year of spend in one category, best
+// first. The spend is spread over the calendar year, so rotating categories
+// and caps apply as they would to a recurring bill; the rate is today's.
+export function rankWalletForSpend(
+  wallet: CreditCard[],
+  category: RewardCategory,
+  spend: number,
+  options: RewardOptions = {},
+  now: Date = new Date()
+): MerchantCardValue[] {
+  return wallet
+    .map((card) => {
+      const yearly = calculateCardValue(
+        card,
+        { [category]: spend },
+        { ...options, monthlySpend: undefined }
+      );
+      return {
+        ...getEarnRate(card, category, options, now),
+        card: card.name,
+        value:
+          yearly.contributions.find((c) => c.category === category)?.value || 0,
+      };
+    })
+    .sort((a, b) => b.value - a.value);
+}
+
+function mostCommon<T>(counts: Map<T, number>): T {
+  return Array.from(counts.entries()).reduce((top, entry) =>
+    entry[1] > top[1] ? entry : top
+  )[0];
+}
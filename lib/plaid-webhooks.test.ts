@@ -0,0 +1,244 @@
+import { after, before, beforeEach, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { createHash, generateKeyPairSync, sign, type JsonWebKey } from "crypto";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { NextRequest } from "next/server";
+
+// Storage reads data/ under the working directory when it is first
+// imported, so every module that uses it is loaded from a scratch directory
+// in before()
+type Storage = typeof import("./storage").storage;
+type Webhooks = typeof import("./plaid-webhooks");
+type WebhookRoute = typeof import("../app/api/plaid/webhook/route");
+type PlaidClient = typeof import("./plaid").plaidClient;
+
+const cwd = process.cwd();
+const FIXTURES_DIR = path.join(cwd, "scripts", "webhooks");
+// The item every recorded payload is about
+const ITEM_ID = "wz666MBjYWTp2PDzzggYhM6oWWmBb";
+
+const { publicKey, privateKey } = generateKeyPairSync("ec", {
+  namedCurve: "P-256",
+});
+const publicJwk: JsonWebKey = publicKey.export({ format: "jwk" });
+const privateJwk: JsonWebKey = privateKey.export({ format: "jwk" });
+
+function toBase64Url(value: object): string {
+  return Buffer.from(JSON.stringify(value)).toString("base64url");
+}
+
+// A Plaid-Verification JWT over the body, as scripts/webhook-cli.ts signs it
+function signBody(
+  body: string,
+  { alg = "ES256", iat = Math.floor(Date.now() / 1000) } = {}
+): string {
+  const header = toBase64Url({ alg, kid: "local-test-key", typ: "JWT" });
+  const payload = toBase64Url({
+    iat,
+    request_body_sha256: createHash("sha256").update(body).digest("hex"),
+  });
+  const signature = sign("sha256", Buffer.from(`${header}.${payload}`), {
+    key: privateJwk,
+    format: "jwk",
+    dsaEncoding: "ieee-p1363",
+  });
+  return `${header}.${payload}.${signature.toString("base64url")}`;
+}
+
+function readFixture(name: string): string {
+  return fs.readFileSync(path.join(FIXTURES_DIR, `${name}.json`), "utf8");
+}
+
+const scratch = fs.mkdtempSync(path.join(os.tmpdir(), "plaid-webhooks-"));
+let storage: Storage;
+let webhooks: Webhooks;
+let route: WebhookRoute;
+let plaidClient: PlaidClient;
+
+before(async () => {
+  process.chdir(scratch);
+  process.env.PLAID_WEBHOOK_VERIFICATION_KEY = JSON.stringify(publicJwk);
+  ({ storage } = await import("./storage"));
+  ({ plaidClient } = await import("./plaid"));
+  webhooks = await import("./plaid-webhooks");
+  route = await import("../app/api/plaid/webhook/route");
+});
+
+after(() => {
+  process.chdir(cwd);
+  delete process.env.PLAID_WEBHOOK_VERIFICATION_KEY;
+  fs.rmSync(scratch, { recursive: true, force: true });
+});
+
+describe("verifyWebhookSignature", () => {
+  const body = JSON.stringify({ webhook_type: "ITEM", item_id: ITEM_ID });
+
+  test("accepts a token signed over the body", () => {
+    assert.equal(
+      webhooks.verifyWebhookSignature(body, signBody(body), publicJwk),
+      true
+    );
+  });
+
+  test("rejects a tampered body", () => {
+    assert.equal(
+      webhooks.verifyWebhookSignature(
+        body.replace("ITEM", "TRANSACTIONS"),
+        signBody(body),
+        publicJwk
+      ),
+      false
+    );
+  });
+
+  test("rejects a token older than five minutes", () => {
+    const iat = Math.floor(Date.now() / 1000) - 6 * 60;
+    assert.equal(
+      webhooks.verifyWebhookSignature(body, signBody(body, { iat }), publicJwk),
+      false
+    );
+  });
+
+  test("rejects an algorithm other than ES256", () => {
+    assert.equal(
+      webhooks.verifyWebhookSignature(
+        body,
+        signBody(body, { alg: "HS256" }),
+        publicJwk
+      ),
+      false
+    );
+  });
+
+  test("rejects a malformed token", () => {
+    assert.equal(
+      webhooks.verifyWebhookSignature(body, "not-a-token", publicJwk),
+      false
+    );
+  });
+});
+
+describe("recorded webhooks", () => {
+  let userId: string;
+
+  beforeEach(() => {
+    fs.rmSync(path.join(scratch, "data"), { recursive: true, force: true });
+    fs.mkdirSync(path.join(scratch, "data"));
+    userId = storage.createUser("webhooks@example.com").id;
+    storage.createPlaidConnection(userId, "access-token", ITEM_ID, "Bank");
+  });
+
+  test("ERROR asks the user to re-authenticate", async () => {
+    const result = await webhooks.handlePlaidWebhook(
+      JSON.parse(readFixture("item-error"))
+    );
+
+    assert.equal(result.handled, true);
+    const connection = storage.getConnectionByItemId(ITEM_ID);
+    assert.equal(connection?.status, "needs_reauth");
+    assert.equal(connection?.item_error, "ITEM_LOGIN_REQUIRED");
+  });
+
+  test("PENDING_EXPIRATION records when consent runs out", async () => {
+    const result = await webhooks.handlePlaidWebhook(
+      JSON.parse(readFixture("pending-expiration"))
+    );
+
+    assert.equal(result.handled, true);
+    const connection = storage.getConnectionByItemId(ITEM_ID);
+    assert.equal(connection?.status, "healthy");
+    assert.equal(connection?.consent_expires_at, "2026-11-15T00:00:00Z");
+  });
+
+  test("USER_PERMISSION_REVOKED revokes the connection", async () => {
+    const result = await webhooks.handlePlaidWebhook(
+      JSON.parse(readFixture("user-permission-revoked"))
+    );
+
+    assert.equal(result.handled, true);
+    assert.equal(storage.getConnectionByItemId(ITEM_ID)?.status, "revoked");
+  });
+
+  test("SYNC_UPDATES_AVAILABLE syncs the connection", async (t) => {
+    const transactionsSync = t.mock.method(
+      plaidClient,
+      "transactionsSync",
+      () =>
+        Promise.resolve({
+          data: {
+            added: [
+              {
+                transaction_id: "txn-1",
+                account_id: "acc-1",
+                amount: 12.5,
+                date: "2026-10-01",
+                name: "Starbucks",
+                category: ["Food and Drink", "Restaurants", "Coffee Shop"],
+                pending_transaction_id: null,
+              },
+            ],
+            modified: [],
+            removed: [],
+            has_more: false,
+            next_cursor: "cursor-1",
+          },
+        })
+    );
+
+    const result = await webhooks.handlePlaidWebhook(
+      JSON.parse(readFixture("sync-updates-available"))
+    );
+
+    assert.equal(result.handled, true);
+    assert.equal(transactionsSync.mock.callCount(), 1);
+    assert.deepEqual(
+      storage.getTransactionsByUserId(userId).map((t) => t.transaction_id),
+      ["txn-1"]
+    );
+    assert.equal(
+      storage.getConnectionByItemId(ITEM_ID)?.transactions_cursor,
+      "cursor-1"
+    );
+  });
+
+  test("ignores payloads for unknown items", async () => {
+    const result = await webhooks.handlePlaidWebhook({
+      ...JSON.parse(readFixture("item-error")),
+      item_id: "unknown-item",
+    });
+
+    assert.equal(result.handled, false);
+  });
+
+  test("the route applies a payload signed with the local key", async () => {
+    const body = readFixture("item-error");
+    const response = await route.POST(
+      new NextRequest("http://localhost/api/plaid/webhook", {
+        method: "POST",
+        headers: { "Plaid-Verification": signBody(body) },
+        body,
+      })
+    );
+
+    assert.equal(response.status, 200);
+    assert.equal((await response.json()).handled, true);
+    assert.equal(
+      storage.getConnectionByItemId(ITEM_ID)?.status,
+      "needs_reauth"
+    );
+  });
+
+  test("the route rejects an unsigned payload", async () => {
+    const response = await route.POST(
+      new NextRequest("http://localhost/api/plaid/webhook", {
+        method: "POST",
+        body: readFixture("item-error"),
+      })
+    );
+
+    assert.equal(response.status, 401);
+    assert.equal(storage.getConnectionByItemId(ITEM_ID)?.status, "healthy");
+  });
+});
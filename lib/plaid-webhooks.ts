@@ -0,0 +1,185 @@
+import {
+  createHash,
+  createPublicKey,
+  timingSafeEqual,
+  verify,
+  type JsonWebKey,
+} from "crypto";
+import { getPlaidErrorDetails, plaidClient } from "./plaid";
+import { storage, type PlaidConnection } from "./storage";
+import { syncConnectionTransactions } from "./transactions";
+
+// The webhook fields we act on; see Plaid's ItemErrorWebhook,
+// PendingExpirationWebhook, SyncUpdatesAvailableWebhook and
+// UserPermissionRevokedWebhook
+export interface PlaidWebhook {
+  webhook_type: string;
+  webhook_code: string;
+  item_id: string;
+  error?: { error_code: string; error_message?: string } | null;
+  consent_expiration_time?: string;
+}
+
+export interface WebhookResult {
+  handled: boolean;
+  message: string;
+}
+
+// Public half of the key Plaid signs a webhook with
+export type WebhookVerificationKey = JsonWebKey;
+
+// Plaid signs with ES256 and says to reject tokens older than five minutes
+const SIGNING_ALGORITHM = "ES256";
+const MAX_TOKEN_AGE_SECONDS = 5 * 60;
+
+const keyCache = new Map<string, WebhookVerificationKey>();
+
+function decodeSegment(segment: string): Record<string, unknown> {
+  return JSON.parse(Buffer.from(segment, "base64url").toString("utf8"));
+}
+
+// Check a Plaid-Verification JWT against the raw request body: the
+// signature, its age, and the body hash it carries
+export function verifyWebhookSignature(
+  body: string,
+  token: string,
+  key: WebhookVerificationKey,
+  now: number = Date.now()
+): boolean {
+  const [header, payload, signature] = token.split(".");
+  if (!header || !payload || !signature) return false;
+
+  try {
+    if (decodeSegment(header).alg !== SIGNING_ALGORITHM) return false;
+
+    const signed = verify(
+      "sha256",
+      Buffer.from(`${header}.${payload}`),
+      {
+        key: createPublicKey({ key, format: "jwk" }),
+        dsaEncoding: "ieee-p1363",
+      },
+      Buffer.from(signature, "base64url")
+    );
+    if (!signed) return false;
+
+    const claims = decodeSegment(payload);
+    if (
+      typeof claims.iat !== "number" ||
+      now / 1000 - claims.iat > MAX_TOKEN_AGE_SECONDS
+    ) {
+      return false;
+    }
+
+    const expected = Buffer.from(
+      createHash("sha256").update(body).digest("hex")
+    );
+    const actual = Buffer.from(String(claims.request_body_sha256));
+    return (
+      expected.length === actual.length && timingSafeEqual(expected, actual)
+    );
+  } catch {
+    return false;
+  }
+}
+
+// PLAID_WEBHOOK_VERIFICATION_KEY (a public JWK) replaces Plaid's key, so
+// recorded payloads signed locally can be replayed against the route
+async function getVerificationKey(
+  kid: string
+): Promise<WebhookVerificationKey> {
+  const localKey = process.env.PLAID_WEBHOOK_VERIFICATION_KEY;
+  if (localKey) return JSON.parse(localKey);
+
+  const cached = keyCache.get(kid);
+  if (cached) return cached;
+
+  const response = await plaidClient.webhookVerificationKeyGet({
+    key_id: kid,
+  });
+  const key: WebhookVerificationKey = { ...response.data.key };
+  keyCache.set(kid, key);
+  return key;
+}
+
+export async function verifyPlaidWebhook(
+  body: string,
+  token: string | null
+): Promise<boolean> {
+  if (!token) return false;
+
+  try {
+    const kid = decodeSegment(token.split(".")[0]).kid;
+    if (typeof kid !== "string") return false;
+
+    return verifyWebhookSignature(body, token, await getVerificationKey(kid));
+  } catch (error) {
+    console.error(
+      "Error fetching webhook verification key:",
+      getPlaidErrorDetails(error)
+    );
+    return false;
+  }
+}
+
+async function handleItemWebhook(
+  webhook: PlaidWebhook,
+  connection: PlaidConnection
+): Promise<WebhookResult> {
+  switch (webhook.webhook_code) {
+    case "ERROR":
+      storage.recordConnectionError(
+        connection.item_id,
+        webhook.error?.error_code || "UNKNOWN_ERROR"
+      );
+      return { handled: true, message: "Item error recorded" };
+    case "PENDING_EXPIRATION":
+      // The connection keeps working until then; the connect page offers to
+      // renew consent through update mode
+      storage.updatePlaidConnection(connection.item_id, {
+        consent_expires_at: webhook.consent_expiration_time || null,
+      });
+      return { handled: true, message: "Consent expiration recorded" };
+    case "USER_PERMISSION_REVOKED":
+      storage.recordConnectionError(
+        connection.item_id,
+        "USER_PERMISSION_REVOKED"
+      );
+      return { handled: true, message: "Permission revocation recorded" };
+    case "LOGIN_REPAIRED":
+      storage.updatePlaidConnection(connection.item_id, {
+        status: "healthy",
+        item_error: null,
+      });
+      return { handled: true, message: "Connection repaired" };
+    default:
+      return { handled: false, message: "Webhook code ignored" };
+  }
+}
+
+// Apply a verified webhook to the connection it is about
+export async function handlePlaidWebhook(
+  webhook: PlaidWebhook
+): Promise<WebhookResult> {
+  const connection = storage.getConnectionByItemId(webhook.item_id);
+  if (!connection) {
+    return { handled: false, message: "Unknown item" };
+  }
+
+  if (webhook.webhook_type === "ITEM") {
+    return handleItemWebhook(webhook, connection);
+  }
+
+  if (
+    webhook.webhook_type === "TRANSACTIONS" &&
+    webhook.webhook_code === "SYNC_UPDATES_AVAILABLE"
+  ) {
+    const result = await syncConnectionTransactions(connection);
+    return {
+      handled: true,
+      message: `Synced ${result.added} added, ${result.updated} updated and ${result.removed} removed transactions`,
+    };
+  }
+
+  return { handled: false, message: "Webhook type ignored" };
+}
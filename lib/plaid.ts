@@ -12,3 +12,18 @@ const configuration = new Configuration({
 });
 
 export const plaidClient = new PlaidApi(configuration);
+
+interface PlaidErrorResponse {
+  response?: { data?: { error_code?: string; error_message?: string } };
+  message?: string;
+}
+
+// Plaid API failures surface as axios errors carrying Plaid's error body
+export function getPlaidErrorCode(error: unknown): string | undefined {
+  return (error as PlaidErrorResponse)?.response?.data?.error_code;
+}
+
+export function getPlaidErrorDetails(error: unknown): unknown {
+  const plaidError = error as PlaidErrorResponse;
+  return plaidError?.response?.data || plaidError?.message;
+}
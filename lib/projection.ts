@@ -0,0 +1,84 @@
+import { parseFirstYearFee, type CreditCard } from "./cards";
+import type { CardRewardValue } from "./rewards";
+
+export const PROJECTION_HORIZONS = [1, 2, 3, 5] as const;
+
+export type ProjectionHorizon = (typeof PROJECTION_HORIZONS)[number];
+
+// Cumulative value of holding a card for a number of years
+export interface YearProjection {
+  years: ProjectionHorizon;
+  bonus: number;
+  rewards: number;
+  statementCredits: number;
+  // Annual fees paid, after any first-year waiver
+  annualFees: number;
+  net: number;
+}
+
+const AMOUNT = "(\\d{1,3}(?:,\\d{3})*)";
+
+// "$300 annual travel credit", "$100 statement credit each account
+// anniversary year", "up to $120 in Uber Cash credits per year"
+const STATEMENT_CREDIT_PATTERNS = [
+  new RegExp(
+    `\\$${AMOUNT}\\s+(?:annual|yearly)\\s+(?:[a-z-]+\\s+){0,3}credit`,
+    "gi"
+  ),
+  new RegExp(
+    `\\$${AMOUNT}\\s+(?:in\\s+)?(?:[a-z-]+\\s+){0,3}credits?\\s+(?:each|every|per)\\s+(?:account\\s+anniversary\\s+|cardmember\\s+|calendar\\s+)?year`,
+    "gi"
+  ),
+];
+
+export function isProjectionHorizon(
+  value: number
+): value is ProjectionHorizon {
+  return (PROJECTION_HORIZONS as readonly number[]).includes(value);
+}
+
+// Recurring statement credits mentioned in the rewards text, in dollars per
+// year, counted at face value
+export function parseStatementCredits(raw?: string | null): number {
+  if (!raw) return 0;
+
+  // Both patterns can match the same phrase, so key credits by position
+  const credits = new Map<number, number>();
+  STATEMENT_CREDIT_PATTERNS.forEach((pattern) => {
+    for (const match of raw.matchAll(pattern)) {
+      credits.set(match.index ?? 0, parseFloat(match[1].replace(/,/g, "")));
+    }
+  });
+
+  return Array.from(credits.values()).reduce((sum, credit) => sum + credit, 0);
+}
+
+export function getStatementCredits(card: CreditCard): number {
+  return parseStatementCredits(card.detailedRewards?.raw || card.rewards);
+}
+
+// Year-by-year totals: the bonus once, rewards and credits every year, and
+// the fee every year except where it is waived in year one
+export function projectCardValue(
+  value: CardRewardValue,
+  bonus: number
+): YearProjection[] {
+  const { card, annualFee, annualRewards } = value;
+  const firstYearFee = Math.min(parseFirstYearFee(card.annualFee), annualFee);
+  const statementCredits = getStatementCredits(card);
+
+  return PROJECTION_HORIZONS.map((years) => {
+    const rewards = annualRewards * years;
+    const credits = statementCredits * years;
+    const annualFees = firstYearFee + annualFee * (years - 1);
+
+    return {
+      years,
+      bonus,
+      rewards,
+      statementCredits: credits,
+      annualFees,
+      net: bonus + rewards + credits - annualFees,
+    };
+  });
+}
@@ -0,0 +1,193 @@
+import {
+  storage,
+  type CardHistoryEntry,
+  type CurrentCard,
+} from "./storage";
+import { loadCardCatalog, type CardCatalog, type CreditCard } from "./cards";
+import {
+  buildCategorySpend,
+  buildMonthlySpend,
+  type CategorySpend,
+  type Transaction,
+} from "./spending";
+import { prepareUserTransactions, type ConnectionError } from "./transactions";
+import type { RewardOptions } from "./rewards";
+import { getValuationTable } from "./valuations";
+import { detectCurrentCards } from "./current-cards";
+import { isCardAvailableForTier } from "./credit-tiers";
+import { filterApprovableCards } from "./issuer-rules";
+import { optimizeWallet } from "./wallet";
+import {
+  applySubscriptionRunRate,
+  applySubscriptionRunRateByMonth,
+  detectSubscriptions,
+  type Subscription,
+} from "./subscriptions";
+
+// Everything a recommendation route needs about a user's spending
+export interface RecommendationContext {
+  catalog: CardCatalog;
+  // Catalog cards the user can be approved for
+  cards: CreditCard[];
+  transactions: Transaction[];
+  subscriptions: Subscription[];
+  // Annualized, with subscriptions at their current run rate
+  spend: CategorySpend;
+  cardHistory: CardHistoryEntry[];
+  rewardOptions: RewardOptions;
+  connectionErrors: ConnectionError[];
+}
+
+export interface RecommendationContextError {
+  error: string;
+  status: number;
+  connectionErrors?: ConnectionError[];
+}
+
+export async function loadRecommendationContext(
+  userId: string | null,
+  months: number = 12
+): Promise<RecommendationContext | RecommendationContextError> {
+  if (!userId) {
+    return { error: "userId parameter required", status: 400 };
+  }
+
+  if (!storage.getUserById(userId)) {
+    return { error: "User not found", status: 404 };
+  }
+
+  if (
+    storage.getConnectionsByUserId(userId).length === 0 &&
+    storage.getCsvImportsByUserId(userId).length === 0
+  ) {
+    return {
+      error:
+        "No bank connections or CSV imports found. Please connect your bank account or import a CSV file first.",
+      status: 400,
+    };
+  }
+
+  const catalog = loadCardCatalog();
+  if (catalog.creditCards.length === 0) {
+    return {
+      error: "Card catalog is empty. Run the NerdWallet scraper first.",
+      status: 503,
+    };
+  }
+
+  const { transactions, errors } = await prepareUserTransactions(
+    userId,
+    months
+  );
+  if (transactions.length === 0) {
+    return {
+      error: "No transactions found. Please sync your transactions first.",
+      status: 404,
+      connectionErrors: errors,
+    };
+  }
+
+  const subscriptions = detectSubscriptions(transactions);
+
+  return {
+    catalog,
+    cards: getEligibleCards(userId, catalog.creditCards),
+    transactions,
+    subscriptions,
+    spend: applySubscriptionRunRate(
+      buildCategorySpend(transactions),
+      transactions,
+      subscriptions
+    ),
+    cardHistory: storage.getCardHistoryByUserId(userId),
+    rewardOptions: {
+      ...getRewardOptions(userId),
+      monthlySpend: applySubscriptionRunRateByMonth(
+        buildMonthlySpend(transactions),
+        transactions,
+        subscriptions
+      ),
+    },
+    connectionErrors: errors,
+  };
+}
+
+// Reward calculation settings from the user's stored preferences
+export function getRewardOptions(userId: string): RewardOptions {
+  const preferences = storage.getUserPreferences(userId);
+
+  return {
+    valuations: getValuationTable({
+      profile: preferences?.valuation_profile,
+      overrides: preferences?.valuation_overrides,
+    }),
+    includePlatformRates: preferences?.include_platform_rates ?? false,
+  };
+}
+
+// Cards within the credit tier the user declared in preferences
+export function getEligibleCards(
+  userId: string,
+  cards: CreditCard[]
+): CreditCard[] {
+  const tier = storage.getUserPreferences(userId)?.credit_tier;
+  if (!tier) return cards;
+
+  return cards.filter((card) => isCardAvailableForTier(card, tier));
+}
+
+// Cards the user holds. Once they have saved their cards in preferences,
+// that list replaces matching linked accounts against the catalog.
+export function getCurrentCards(
+  userId: string,
+  cards: CreditCard[]
+): CurrentCard[] {
+  return (
+    storage.getUserPreferences(userId)?.current_cards ??
+    detectCurrentCards(storage.getConnectionsByUserId(userId), cards)
+  );
+}
+
+export type WalletSource = "current" | "recommended";
+
+// The cards a per-merchant or per-bill guide routes spending to: the user's
+// current cards, or the optimized wallet when those are unknown or requested
+export function getGuideWallet(
+  userId: string,
+  context: RecommendationContext,
+  source: WalletSource
+): { wallet: CreditCard[]; source: WalletSource } {
+  const { catalog, cards, spend, rewardOptions, cardHistory } = context;
+
+  if (source === "current") {
+    const held = new Set(
+      getCurrentCards(userId, catalog.creditCards).map(
+        (current) => current.card_name
+      )
+    );
+    const wallet = catalog.creditCards.filter((card) => held.has(card.name));
+    if (wallet.length > 0) return { wallet, source };
+  }
+
+  const best = optimizeWallet(
+    filterApprovableCards(cards, cardHistory),
+    spend,
+    rewardOptions
+  ).best;
+  const names = new Set(best ? best.cards.map((card) => card.name) : []);
+
+  return {
+    wallet: cards.filter((card) => names.has(card.name)),
+    source: "recommended",
+  };
+}
+
+export function isWalletSource(value: string): value is WalletSource {
+  return value === "current" || value === "recommended";
+}
+
+export function isContextError(
+  context: RecommendationContext | RecommendationContextError
+): context is RecommendationContextError {
+  return "error" in context;
+}
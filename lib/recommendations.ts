@@ -0,0 +1,304 @@
+import type { CardImage, CreditCard, RewardCategory } from "./cards";
+import {
+  scoreCards,
+  type CardRewardValue,
+  type CategoryContribution,
+  type RewardOptions,
+} from "./rewards";
+import type { CategorySpend } from "./spending";
+import { formatCategory } from "./categories";
+import { getCentsPerUnit, getValuationTable } from "./valuations";
+import { getBreakEven, type BreakEven } from "./break-even";
+import {
+  assessBonusFeasibility,
+  getIntroOfferTerms,
+  type BonusFeasibility,
+} from "./intro-offers";
+import {
+  projectCardValue,
+  type ProjectionHorizon,
+  type YearProjection,
+} from "./projection";
+import {
+  evaluateCardEligibility,
+  type CardEligibility,
+} from "./issuer-rules";
+import type { CardHistoryEntry } from "./storage";
+
+export interface ContributionBreakdown extends CategoryContribution {
+  // Fraction of the card's annual rewards earned in this category
+  share: number;
+}
+
+export interface RecommendationOptions extends RewardOptions {
+  // Cards the user opened, checked against issuer application rules
+  cardHistory?: CardHistoryEntry[];
+  // Drop cards an issuer rule says the user can't be approved for, rather
+  // than flagging them
+  excludeIneligible?: boolean;
+}
+
+export interface CardRecommendation {
+  rank: number;
+  name: string;
+  image?: CardImage;
+  rating: number | null;
+  annualFee: number;
+  annualRewards: number;
+  netAnnualValue: number;
+  introOfferValue: number;
+  bonusFeasibility: BonusFeasibility;
+  eligibility: CardEligibility;
+  // Year-one value: rewards, statement credits and the intro offer when the
+  // bonus is attainable and the user is eligible for it, less the first-year
+  // fee
+  firstYearValue: number;
+  // Cumulative value over 1, 2, 3 and 5 years of keeping the card
+  projection: YearProjection[];
+  // Comparison with the best no-fee card; null for no-fee cards
+  breakEven: BreakEven | null;
+  breakdown: ContributionBreakdown[];
+  explanation: string[];
+}
+
+// Only call out categories that drive a meaningful part of the value
+const EXPLANATION_MIN_SHARE = 0.1;
+const EXPLANATION_MAX_CATEGORIES = 2;
+
+// Dollar value of a card's sign-up bonus. "Cashback Match" doubles the
+// cash back earned in the first year.
+export function getIntroOfferValue(
+  card: CreditCard,
+  annualRewards: number,
+  options: RewardOptions = {}
+): number {
+  const offer = card.introOffer;
+  if (!offer || offer.amount === null) return 0;
+  if (offer.amount === "match") return annualRewards;
+
+  if (offer.currency === "points" || offer.currency === "miles") {
+    const valuations = options.valuations || getValuationTable();
+    const cents = getCentsPerUnit(valuations, card, offer.currency);
+    return (offer.amount * cents) / 100;
+  }
+
+  return offer.amount;
+}
+
+function formatDollars(amount: number): string {
+  return `$${Math.round(amount).toLocaleString("en-US")}`;
+}
+
+function explainBonus(
+  introOfferValue: number,
+  feasibility: BonusFeasibility
+): string {
+  const { status, minimumSpend, windowMonths, monthsToReach } = feasibility;
+  const bonus = formatDollars(introOfferValue);
+  const minimum = formatDollars(minimumSpend || 0);
+
+  if (status === "attainable") {
+    const months = `${monthsToReach} month${monthsToReach === 1 ? "" : "s"}`;
+    return `Sign-up bonus adds about ${bonus} in year one; your spending reaches the ${minimum} minimum in ${months}`;
+  }
+
+  if (status === "unattainable") {
+    return monthsToReach === null
+      ? `The ${bonus} sign-up bonus is out of reach at your current spending`
+      : `The ${bonus} sign-up bonus needs ${minimum} in ${windowMonths} months; your spending would take ${monthsToReach}`;
+  }
+
+  return `Sign-up bonus adds about ${bonus} in year one`;
+}
+
+function explainBreakEven(breakEven: BreakEven): string {
+  const { annualFee, alternative, alternativeValue, netAnnualValue } =
+    breakEven;
+  const fee = formatDollars(annualFee);
+  const rival = alternative || "a no-fee card";
+
+  if (breakEven.worthIt) {
+    const margin = formatDollars(netAnnualValue - alternativeValue);
+    return `Beats ${rival} by ${margin}/yr even after the ${fee} fee`;
+  }
+
+  if (breakEven.breakEvenSpend === null) {
+    return `At your spending mix the ${fee} fee never pays off against ${rival}`;
+  }
+
+  return `The ${fee} fee pays off against ${rival} above ${formatDollars(
+    breakEven.breakEvenSpend
+  )}/yr of spending; you spend ${formatDollars(breakEven.currentSpend)}`;
+}
+
+// Plain-language reasons a card ranks where it does, built from its
+// category contributions, fee and bonus
+export function explainRecommendation(
+  recommendation: Omit<CardRecommendation, "explanation">
+): string[] {
+  const {
+    breakdown,
+    annualFee,
+    annualRewards,
+    introOfferValue,
+    bonusFeasibility,
+    breakEven,
+    projection,
+    eligibility,
+  } = recommendation;
+  const explanation = breakdown
+    .filter((contribution) => contribution.share >= EXPLANATION_MIN_SHARE)
+    .slice(0, EXPLANATION_MAX_CATEGORIES)
+    .map((contribution) => {
+      const percent = Math.round(contribution.share * 100);
+      const spend = formatDollars(contribution.spend);
+      const category = formatCategory(contribution.category);
+      return `${percent}% of value comes from your ${spend}/yr of ${category}`;
+    });
+
+  const capped = breakdown.find((contribution) => contribution.cappedSpend > 0);
+  if (capped) {
+    explanation.push(
+      `${formatDollars(capped.cappedSpend)}/yr of your ${formatCategory(
+        capped.category
+      )} spending goes past a bonus cap and earns a lower rate`
+    );
+  }
+
+  if (breakEven) {
+    explanation.push(explainBreakEven(breakEven));
+  } else if (annualFee > 0) {
+    explanation.push(
+      annualRewards >= annualFee
+        ? `Rewards cover the ${formatDollars(annualFee)} annual fee ${(
+            annualRewards / annualFee
+          ).toFixed(1)}x`
+        : `Rewards don't cover the ${formatDollars(annualFee)} annual fee`
+    );
+  } else {
+    explanation.push("No annual fee, so every reward dollar is kept");
+  }
+
+  const [firstYear] = projection;
+  if (annualFee > 0 && firstYear.annualFees < annualFee) {
+    explanation.push(
+      `The ${formatDollars(annualFee)} annual fee is waived in year one`
+    );
+  }
+
+  if (firstYear.statementCredits > 0) {
+    explanation.push(
+      `Statement credits are worth up to ${formatDollars(
+        firstYear.statementCredits
+      )}/yr if you use them`
+    );
+  }
+
+  if (introOfferValue > 0 && eligibility.bonusEligible) {
+    explanation.push(explainBonus(introOfferValue, bonusFeasibility));
+  }
+
+  // Issuer rules go first: they matter more than anything above
+  const ruleNotes = eligibility.violations.map((violation) =>
+    violation.effect === "ineligible"
+      ? `Likely declined: ${violation.description}`
+      : `Sign-up bonus unavailable: ${violation.description}`
+  );
+
+  return [...ruleNotes, ...explanation];
+}
+
+export function toRecommendation(
+  value: CardRewardValue,
+  rank: number,
+  spend: CategorySpend,
+  noFeeAlternative: CardRewardValue | null,
+  options: RecommendationOptions = {}
+): CardRecommendation {
+  const monthlySpend = getTotalSpend(spend) / 12;
+  const { card, annualFee, annualRewards, netAnnualValue } = value;
+  const introOfferValue = getIntroOfferValue(card, annualRewards, options);
+  const bonusFeasibility = assessBonusFeasibility(
+    getIntroOfferTerms(card),
+    monthlySpend
+  );
+  const eligibility = evaluateCardEligibility(card, options.cardHistory || []);
+  const countedBonus =
+    bonusFeasibility.status === "unattainable" || !eligibility.bonusEligible
+      ? 0
+      : introOfferValue;
+  const projection = projectCardValue(value, countedBonus);
+  const rating = card.rating ? parseFloat(card.rating) : NaN;
+
+  const recommendation = {
+    rank,
+    name: card.name,
+    image: card.image,
+    rating: isNaN(rating) ? null : rating,
+    annualFee,
+    annualRewards,
+    netAnnualValue,
+    introOfferValue,
+    bonusFeasibility,
+    eligibility,
+    firstYearValue: projection[0].net,
+    projection,
+    breakEven: getBreakEven(value, noFeeAlternative, spend),
+    breakdown: value.contributions.map((contribution) => ({
+      ...contribution,
+      share: annualRewards > 0 ? contribution.value / annualRewards : 0,
+    })),
+  };
+
+  return {
+    ...recommendation,
+    explanation: explainRecommendation(recommendation),
+  };
+}
+
+// Rank the catalog against the user's spending, best net annual value first,
+// or best cumulative value over a number of years when a horizon is given
+export function buildRecommendations(
+  cards: CreditCard[],
+  spend: CategorySpend,
+  options: RecommendationOptions = {},
+  horizon: ProjectionHorizon | null = null
+): CardRecommendation[] {
+  const scored = scoreCards(cards, spend, options);
+  const noFeeAlternative =
+    scored.find((value) => value.annualFee === 0) || null;
+  const recommendations = scored
+    .map((value, index) =>
+      toRecommendation(value, index + 1, spend, noFeeAlternative, options)
+    )
+    .filter(
+      (recommendation) =>
+        !options.excludeIneligible || recommendation.eligibility.eligible
+    );
+
+  if (horizon !== null) {
+    recommendations.sort(
+      (a, b) => getHorizonValue(b, horizon) - getHorizonValue(a, horizon)
+    );
+  }
+
+  return recommendations.map((recommendation, index) => ({
+    ...recommendation,
+    rank: index + 1,
+  }));
+}
+
+export function getHorizonValue(
+  recommendation: CardRecommendation,
+  horizon: ProjectionHorizon
+): number {
+  const year = recommendation.projection.find((p) => p.years === horizon);
+  return year ? year.net : 0;
+}
+
+export function getTotalSpend(spend: CategorySpend): number {
+  return (Object.keys(spend) as RewardCategory[]).reduce(
+    (sum, category) => sum + (spend[category] || 0),
+    0
+  );
+}
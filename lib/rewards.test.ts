@@ -0,0 +1,146 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import type { CardRewardCategory, CreditCard } from "./cards";
+import { calculateCardValue, getEarnRate } from "./rewards";
+import type { MonthlySpend } from "./spending";
+
+function makeCard(categories: CardRewardCategory[]): CreditCard {
+  return {
+    name: "Test Card",
+    annualFee: "0",
+    detailedRewards: { raw: "", parsed: { categories } },
+  };
+}
+
+function rate(
+  category: string,
+  value: number,
+  extra: Partial<CardRewardCategory> = {}
+): CardRewardCategory {
+  return {
+    category,
+    rate: String(value),
+    currency: "cashback",
+    platform: null,
+    ...extra,
+  };
+}
+
+// `count` consecutive months of 2026 from `start` (1-12), each with the
+// same spend
+function months(
+  start: number,
+  count: number,
+  categories: MonthlySpend["categories"]
+): MonthlySpend[] {
+  return Array.from({ length: count }, (_, index) => ({
+    month: `2026-${String(start + index).padStart(2, "0")}`,
+    categories,
+  }));
+}
+
+// 6% on up to $6,000 a year, then 1%
+const cappedGroceries = makeCard([
+  rate("groceries", 6, { cap: 6000, capPeriod: "year", fallbackRate: "1" }),
+]);
+
+describe("calculateCardValue", () => {
+  test("falls back to the capped rate's fallback past a yearly cap", () => {
+    const value = calculateCardValue(
+      cappedGroceries,
+      {},
+      { monthlySpend: months(1, 12, { groceries: 3000 }) }
+    );
+
+    // $6,000 at 6% and $30,000 at 1%
+    assert.equal(Math.round(value.annualRewards), 660);
+    assert.equal(Math.round(value.contributions[0].cappedSpend), 30000);
+  });
+
+  test("falls back to the general rate when a cap has no fallback", () => {
+    const card = makeCard([
+      rate("groceries", 6, { cap: 6000, capPeriod: "year" }),
+      rate("general", 2),
+    ]);
+    const value = calculateCardValue(
+      card,
+      {},
+      { monthlySpend: months(1, 12, { groceries: 3000 }) }
+    );
+
+    // $6,000 at 6% and $30,000 at 2%
+    assert.equal(Math.round(value.annualRewards), 960);
+  });
+
+  test("resets a monthly cap every month", () => {
+    const card = makeCard([
+      rate("dining", 4, { cap: 500, capPeriod: "month", fallbackRate: "1" }),
+    ]);
+    const value = calculateCardValue(
+      card,
+      {},
+      { monthlySpend: months(1, 12, { dining: 1000 }) }
+    );
+
+    // Each month: $500 at 4% and $500 at 1%
+    assert.equal(Math.round(value.annualRewards), 300);
+  });
+
+  test("prorates a yearly cap to a short history", () => {
+    const short = calculateCardValue(
+      cappedGroceries,
+      {},
+      { monthlySpend: months(1, 3, { groceries: 3000 }) }
+    );
+    const full = calculateCardValue(cappedGroceries, { groceries: 36000 });
+
+    assert.equal(Math.round(short.annualRewards), 660);
+    assert.equal(Math.round(full.annualRewards), 660);
+  });
+
+  test("shares one cap across a quarter's rotating categories", () => {
+    const card = makeCard([
+      rate("groceries", 5, { quarters: [1], cap: 1500, capPeriod: "quarter" }),
+      rate("gas", 5, { quarters: [1], cap: 1500, capPeriod: "quarter" }),
+      rate("general", 1),
+    ]);
+    const monthlySpend = [
+      ...months(1, 1, { groceries: 1500, gas: 1500 }),
+      ...months(2, 11, {}),
+    ];
+    const value = calculateCardValue(card, {}, { monthlySpend });
+
+    // $1,500 at 5% and the other $1,500 at 1%
+    assert.equal(Math.round(value.annualRewards), 90);
+  });
+
+  test("only earns a rotating rate in its quarters", () => {
+    const card = makeCard([
+      rate("gas", 5, { quarters: [1], cap: 1500, capPeriod: "quarter" }),
+      rate("general", 1),
+    ]);
+    const value = calculateCardValue(
+      card,
+      {},
+      { monthlySpend: months(1, 12, { gas: 100 }) }
+    );
+
+    // Three months at 5%, nine at 1%
+    assert.equal(Math.round(value.annualRewards), 24);
+  });
+});
+
+describe("getEarnRate", () => {
+  const card = makeCard([
+    rate("gas", 5, { quarters: [1] }),
+    rate("general", 1.5),
+  ]);
+
+  test("uses a rotating rate in its quarter", () => {
+    assert.equal(getEarnRate(card, "gas", {}, new Date(2026, 1, 1)).rate, 5);
+  });
+
+  test("falls back outside a rotating rate's quarter", () => {
+    assert.equal(getEarnRate(card, "gas", {}, new Date(2026, 4, 1)).rate, 1.5);
+  });
+});
@@ -0,0 +1,348 @@
+import {
+  parseAnnualFee,
+  REWARD_CATEGORIES,
+  type CapPeriod,
+  type CreditCard,
+  type RewardCategory,
+  type RewardCurrency,
+} from "./cards";
+import {
+  spreadAnnualSpend,
+  type CategorySpend,
+  type MonthlySpend,
+} from "./spending";
+import {
+  getCentsPerUnit,
+  getValuationTable,
+  type ValuationTable,
+} from "./valuations";
+
+export interface RewardOptions {
+  // Point and mile valuations; defaults to the standard profile
+  valuations?: ValuationTable;
+  // Count rates that only apply when booking through an issuer portal
+  includePlatformRates?: boolean;
+  // Dated spending to apply caps and quarterly categories against; annual
+  // spend is spread evenly over a calendar year when omitted
+  monthlySpend?: MonthlySpend[];
+}
+
+export interface EarnRate {
+  rate: number;
+  currency: RewardCurrency;
+  platform: string | null;
+}
+
+export interface CategoryContribution extends EarnRate {
+  category: RewardCategory;
+  spend: number;
+  value: number;
+  // Spend that went past a cap and earned a lower rate
+  cappedSpend: number;
+}
+
+interface RateEntry extends EarnRate {
+  id: number;
+  category: string;
+  cap: number | null;
+  capPeriod: CapPeriod;
+  fallbackRate: number | null;
+  quarters: number[] | null;
+}
+
+export interface CardRewardValue {
+  card: CreditCard;
+  annualFee: number;
+  annualRewards: number;
+  netAnnualValue: number;
+  contributions: CategoryContribution[];
+}
+
+// Most cards earn 1x/1% on everything not called out in the tooltip
+const DEFAULT_BASE_RATE: EarnRate = {
+  rate: 1,
+  currency: "cashback",
+  platform: null,
+};
+
+const DEFAULT_OPTIONS = {
+  includePlatformRates: false,
+};
+
+// Dollars earned per dollar spent at a given rate
+export function valuePerDollar(
+  card: CreditCard,
+  earnRate: EarnRate,
+  options: RewardOptions = {}
+): number {
+  const valuations = options.valuations || getValuationTable();
+  const cents = getCentsPerUnit(
+    valuations,
+    card,
+    earnRate.currency,
+    earnRate.platform
+  );
+
+  return (earnRate.rate * cents) / 100;
+}
+
+function getParsedRates(
+  card: CreditCard,
+  options: RewardOptions
+): RateEntry[] {
+  const { includePlatformRates } = { ...DEFAULT_OPTIONS, ...options };
+  const categories = card.detailedRewards?.parsed?.categories || [];
+
+  return categories
+    .map((entry, id) => {
+      // Model output is loosely typed, so coerce numeric fields
+      const cap = Number(entry.cap);
+      const fallbackRate = entry.fallbackRate
+        ? parseFloat(entry.fallbackRate)
+        : NaN;
+      const quarters = (entry.quarters || [])
+        .map(Number)
+        .filter((quarter) => quarter >= 1 && quarter <= 4);
+
+      return {
+        id,
+        category: entry.category?.toLowerCase(),
+        rate: parseFloat(entry.rate),
+        currency: entry.currency || "cashback",
+        platform: entry.platform || null,
+        cap: cap > 0 ? cap : null,
+        capPeriod: entry.capPeriod || "year",
+        fallbackRate: isNaN(fallbackRate) ? null : fallbackRate,
+        quarters: quarters.length > 0 ? quarters : null,
+      };
+    })
+    .filter(
+      (entry) =>
+        entry.category &&
+        !isNaN(entry.rate) &&
+        (includePlatformRates || !entry.platform)
+    );
+}
+
+function getQuarter(month: string): number {
+  return Math.ceil(parseInt(month.slice(5, 7), 10) / 3);
+}
+
+// Caps reset at the start of each calendar month or quarter. A yearly cap
+// covers the whole window being valued, prorated to its length (see
+// getCapLimit). A quarter's rotating categories share one cap, e.g. 5% on
+// up to $1,500 across both of them.
+function getCapKey(entry: RateEntry, month: string): string {
+  const id = entry.quarters ? "rotating" : entry.id;
+
+  switch (entry.capPeriod) {
+    case "month":
+      return `${id}:${month}`;
+    case "quarter":
+      return `${id}:${month.slice(0, 4)}-Q${getQuarter(month)}`;
+    default:
+      return `${id}:year`;
+  }
+}
+
+// Three months of history get a quarter of a yearly cap, so spend past the
+// cap isn't valued at the bonus rate once the window is annualized
+function getCapLimit(entry: RateEntry, windowMonths: number): number {
+  return entry.capPeriod === "year"
+    ? (entry.cap! * windowMonths) / 12
+    : entry.cap!;
+}
+
+interface MonthlyEarnings {
+  value: number;
+  cappedSpend: number;
+  // Spend earned at each rate, to report the rate doing most of the work
+  earned: Array<{ rate: EarnRate; spend: number }>;
+}
+
+// Earn one month's spend in a category, filling the best rates first and
+// spilling over to lower rates once a cap is used up
+function earnForMonth(
+  card: CreditCard,
+  entries: RateEntry[],
+  category: RewardCategory,
+  month: string,
+  amount: number,
+  capUsage: Map<string, number>,
+  windowMonths: number,
+  options: RewardOptions
+): MonthlyEarnings {
+  const quarter = getQuarter(month);
+  const candidates = entries
+    .filter(
+      (entry) =>
+        (entry.category === category || entry.category === "general") &&
+        (!entry.quarters || entry.quarters.includes(quarter))
+    )
+    .sort(
+      (a, b) =>
+        valuePerDollar(card, b, options) - valuePerDollar(card, a, options)
+    );
+
+  const result: MonthlyEarnings = { value: 0, cappedSpend: 0, earned: [] };
+  const earn = (rate: EarnRate, spend: number) => {
+    result.value += spend * valuePerDollar(card, rate, options);
+    result.earned.push({ rate, spend });
+  };
+  let remaining = amount;
+
+  for (const entry of candidates) {
+    if (remaining <= 0) break;
+
+    const capKey = entry.cap !== null ? getCapKey(entry, month) : null;
+    const available = capKey
+      ? Math.max(
+          0,
+          getCapLimit(entry, windowMonths) - (capUsage.get(capKey) || 0)
+        )
+      : Infinity;
+    const used = Math.min(remaining, available);
+
+    if (used > 0) {
+      earn(entry, used);
+      remaining -= used;
+      if (capKey) capUsage.set(capKey, (capUsage.get(capKey) || 0) + used);
+    }
+
+    if (remaining > 0 && capKey) {
+      result.cappedSpend += remaining;
+      if (entry.fallbackRate !== null) {
+        earn({ ...entry, rate: entry.fallbackRate }, remaining);
+        remaining = 0;
+      }
+    }
+  }
+
+  if (remaining > 0) earn(DEFAULT_BASE_RATE, remaining);
+
+  return result;
+}
+
+// Best rate a card earns in a category on a given day, falling back to its
+// general rate. Rotating categories only count in their active quarters.
+export function getEarnRate(
+  card: CreditCard,
+  category: RewardCategory,
+  options: RewardOptions = {},
+  date: Date = new Date()
+): EarnRate {
+  const quarter = Math.floor(date.getMonth() / 3) + 1;
+  const candidates = getParsedRates(card, options).filter(
+    (entry) =>
+      (entry.category === category || entry.category === "general") &&
+      (!entry.quarters || entry.quarters.includes(quarter))
+  );
+  if (candidates.length === 0) return DEFAULT_BASE_RATE;
+
+  const best = candidates.reduce((top, entry) =>
+    valuePerDollar(card, entry, options) > valuePerDollar(card, top, options)
+      ? entry
+      : top
+  );
+  return { rate: best.rate, currency: best.currency, platform: best.platform };
+}
+
+// The rate that earned on the most spend across all months
+function getPrimaryRate(earned: MonthlyEarnings["earned"]): EarnRate {
+  const byRate = new Map<string, { rate: EarnRate; spend: number }>();
+
+  earned.forEach(({ rate, spend }) => {
+    const key = `${rate.rate}|${rate.currency}|${rate.platform}`;
+    const entry = byRate.get(key) || { rate, spend: 0 };
+    entry.spend += spend;
+    byRate.set(key, entry);
+  });
+
+  return Array.from(byRate.values()).reduce((top, entry) =>
+    entry.spend > top.spend ? entry : top
+  ).rate;
+}
+
+// Value a card month by month so spending caps, cap periods and quarterly
+// categories apply against when the money was actually spent
+export function calculateCardValue(
+  card: CreditCard,
+  spend: CategorySpend,
+  options: RewardOptions = {}
+): CardRewardValue {
+  const months = options.monthlySpend?.length
+    ? options.monthlySpend
+    : spreadAnnualSpend(spend);
+  const annualizeFactor = 12 / months.length;
+  const entries = getParsedRates(card, options);
+  const capUsage = new Map<string, number>();
+  const totals = new Map<RewardCategory, MonthlyEarnings & { spend: number }>();
+
+  months.forEach(({ month, categories }) => {
+    REWARD_CATEGORIES.forEach((category) => {
+      const amount = categories[category] || 0;
+      if (amount <= 0) return;
+
+      const earnings = earnForMonth(
+        card,
+        entries,
+        category,
+        month,
+        amount,
+        capUsage,
+        months.length,
+        options
+      );
+      const total = totals.get(category) || {
+        spend: 0,
+        value: 0,
+        cappedSpend: 0,
+        earned: [],
+      };
+      total.spend += amount;
+      total.value += earnings.value;
+      total.cappedSpend += earnings.cappedSpend;
+      total.earned.push(...earnings.earned);
+      totals.set(category, total);
+    });
+  });
+
+  const contributions: CategoryContribution[] = [];
+  totals.forEach((total, category) => {
+    const primary = getPrimaryRate(total.earned);
+
+    contributions.push({
+      category,
+      spend: total.spend * annualizeFactor,
+      rate: primary.rate,
+      currency: primary.currency,
+      platform: primary.platform,
+      value: total.value * annualizeFactor,
+      cappedSpend: total.cappedSpend * annualizeFactor,
+    });
+  });
+
+  contributions.sort((a, b) => b.value - a.value);
+
+  const annualRewards = contributions.reduce((sum, c) => sum + c.value, 0);
+  const annualFee = parseAnnualFee(card.annualFee);
+
+  return {
+    card,
+    annualFee,
+    annualRewards,
+    netAnnualValue: annualRewards - annualFee,
+    contributions,
+  };
+}
+
+// Score every card against the user's spending, best net value first
+export function scoreCards(
+  cards: CreditCard[],
+  spend: CategorySpend,
+  options: RewardOptions = {}
+): CardRewardValue[] {
+  return cards
+    .map((card) => calculateCardValue(card, spend, options))
+    .sort((a, b) => b.netAnnualValue - a.netAnnualValue);
+}
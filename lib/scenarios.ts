@@ -0,0 +1,39 @@
+import { isRewardCategory, REWARD_CATEGORIES } from "./cards";
+import type { CategorySpend } from "./spending";
+
+// Validate monthly spend sent by the simulator: reward category keys with
+// non-negative amounts. Returns null if anything is malformed.
+export function parseMonthlySpend(value: unknown): CategorySpend | null {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return null;
+  }
+
+  const spend: CategorySpend = {};
+  for (const [category, amount] of Object.entries(value)) {
+    if (!isRewardCategory(category)) return null;
+    if (typeof amount !== "number" || !isFinite(amount) || amount < 0) {
+      return null;
+    }
+    if (amount > 0) spend[category] = amount;
+  }
+
+  return spend;
+}
+
+export function toAnnualSpend(monthlySpend: CategorySpend): CategorySpend {
+  const spend: CategorySpend = {};
+  REWARD_CATEGORIES.forEach((category) => {
+    const amount = monthlySpend[category];
+    if (amount) spend[category] = amount * 12;
+  });
+  return spend;
+}
+
+// Whole-dollar monthly amounts for every category, as the sliders show them
+export function toMonthlySpend(annualSpend: CategorySpend): CategorySpend {
+  const spend: CategorySpend = {};
+  REWARD_CATEGORIES.forEach((category) => {
+    spend[category] = Math.round((annualSpend[category] || 0) / 12);
+  });
+  return spend;
+}
@@ -0,0 +1,66 @@
+// How a source writes which way money moved. Transactions are stored
+// outflow_positive, Plaid's convention: a purchase is positive and a refund
+// or payment received is negative. Most bank CSV exports, including
+// sample-transactions.csv, are outflow_negative. debit_credit files have
+// separate unsigned columns for money out and money in.
+export type SignConvention =
+  "outflow_positive" | "outflow_negative" | "debit_credit";
+
+export const SIGN_CONVENTIONS: SignConvention[] = [
+  "outflow_positive",
+  "outflow_negative",
+  "debit_credit",
+];
+
+export const PLAID_SIGN_CONVENTION: SignConvention = "outflow_positive";
+
+// Descriptions that only ever appear on money coming in: a card payment on
+// a card statement, refunds, and deposits into a bank account
+const INFLOW_NAME =
+  /payment\W+thank you|autopay payment|refund|return|deposit|payroll|direct dep/i;
+
+export function isSignConvention(value: string): value is SignConvention {
+  return (SIGN_CONVENTIONS as string[]).includes(value);
+}
+
+// An amount in the canonical convention. Debit/credit amounts come out of
+// fromDebitCredit already canonical.
+export function toCanonicalAmount(
+  amount: number,
+  convention: SignConvention
+): number {
+  return convention === "outflow_negative" ? -amount : amount;
+}
+
+// Debit and credit columns as one canonical amount. Either may be blank;
+// some banks write debits as negative numbers, so signs are dropped.
+export function fromDebitCredit(
+  debit: number | null,
+  credit: number | null
+): number | null {
+  if (debit === null && credit === null) return null;
+  return Math.abs(debit || 0) - Math.abs(credit || 0);
+}
+
+// Which sign a single amount column uses for money out. Rows whose
+// description marks them as money in settle it when they agree; otherwise
+// purchases are assumed to outnumber credits, as they do in card and most
+// bank exports.
+export function detectSignConvention(
+  rows: Array<{ amount: number; name: string }>
+): Exclude<SignConvention, "debit_credit"> {
+  const nonZero = rows.filter((row) => row.amount !== 0);
+  const inflows = nonZero.filter((row) => INFLOW_NAME.test(row.name));
+  const negativeInflows = inflows.filter((row) => row.amount < 0).length;
+
+  if (inflows.length > 0 && negativeInflows !== inflows.length / 2) {
+    return negativeInflows > inflows.length / 2
+      ? "outflow_positive"
+      : "outflow_negative";
+  }
+
+  const negative = nonZero.filter((row) => row.amount < 0).length;
+  return negative > nonZero.length / 2
+    ? "outflow_negative"
+    : "outflow_positive";
+}
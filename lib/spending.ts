@@ -0,0 +1,219 @@
+import type { RewardCategory } from "./cards";
+import {
+  formatCategory,
+  toRewardCategory,
+  type PersonalFinanceCategory,
+} from "./categories";
+
+// The canonical transaction every ingestion path produces, whether synced
+// from Plaid or imported from a CSV file
+export interface Transaction {
+  transaction_id: string;
+  account_id: string;
+  // Positive for money out (a purchase), negative for money in (a refund or
+  // a payment received); see lib/sign-convention.ts
+  amount: number;
+  date: string;
+  name: string;
+  category?: string[];
+  personal_finance_category?: PersonalFinanceCategory | null;
+  payment_channel?: string | null;
+  reward_category?: RewardCategory | null;
+  // Set on a posted transaction that replaces an earlier pending one
+  pending_transaction_id?: string | null;
+}
+
+export interface SpendingAnalysis {
+  totalSpending: number;
+  monthlyAverage: number;
+  topCategory: {
+    category: string;
+    amount: number;
+    percentage: number;
+  };
+  categoryBreakdown: Array<{
+    category: string;
+    amount: number;
+    percentage: number;
+    count: number;
+  }>;
+  monthlyTrends: Array<{
+    month: string;
+    amount: number;
+  }>;
+  recentTransactions: Transaction[];
+}
+
+// Annual spend per reward category
+export type CategorySpend = Partial<Record<RewardCategory, number>>;
+
+// Spend per reward category within one calendar month (YYYY-MM)
+export interface MonthlySpend {
+  month: string;
+  categories: CategorySpend;
+}
+
+// Plaid reports outflows as positive amounts
+export function getSpendingTransactions(
+  transactions: Transaction[]
+): Transaction[] {
+  return transactions.filter((t) => t.amount > 0);
+}
+
+// Number of calendar months touched by the transactions (at least 1)
+export function countMonthsCovered(transactions: Transaction[]): number {
+  if (transactions.length === 0) return 1;
+
+  const dates = transactions.map((t) => new Date(t.date));
+  const earliestDate = new Date(Math.min(...dates.map((d) => d.getTime())));
+  const latestDate = new Date(Math.max(...dates.map((d) => d.getTime())));
+
+  return Math.max(
+    1,
+    (latestDate.getFullYear() - earliestDate.getFullYear()) * 12 +
+      (latestDate.getMonth() - earliestDate.getMonth()) +
+      1
+  );
+}
+
+export function analyzeSpending(
+  transactions: Transaction[]
+): SpendingAnalysis {
+  // Filter out positive amounts (credits/refunds) and focus on spending
+  const spendingTransactions = getSpendingTransactions(transactions);
+
+  // Calculate total spending
+  const totalSpending = spendingTransactions.reduce(
+    (sum, t) => sum + t.amount,
+    0
+  );
+
+  // Calculate date range for monthly average
+  const monthlyAverage =
+    totalSpending / countMonthsCovered(spendingTransactions);
+
+  // Category analysis
+  const categoryTotals: { [key: string]: { amount: number; count: number } } =
+    {};
+
+  spendingTransactions.forEach((transaction) => {
+    const category = formatCategory(toRewardCategory(transaction));
+    if (!categoryTotals[category]) {
+      categoryTotals[category] = { amount: 0, count: 0 };
+    }
+    categoryTotals[category].amount += transaction.amount;
+    categoryTotals[category].count += 1;
+  });
+
+  // Sort categories by spending amount
+  const categoryBreakdown = Object.entries(categoryTotals)
+    .map(([category, data]) => ({
+      category,
+      amount: data.amount,
+      percentage: (data.amount / totalSpending) * 100,
+      count: data.count,
+    }))
+    .sort((a, b) => b.amount - a.amount);
+
+  const topCategory = categoryBreakdown[0] || {
+    category: "No Data",
+    amount: 0,
+    percentage: 0,
+  };
+
+  // Monthly trends
+  const monthlyTotals: { [key: string]: number } = {};
+  spendingTransactions.forEach((transaction) => {
+    const monthKey = new Date(transaction.date).toISOString().slice(0, 7); // YYYY-MM
+    monthlyTotals[monthKey] =
+      (monthlyTotals[monthKey] || 0) + transaction.amount;
+  });
+
+  const monthlyTrends = Object.entries(monthlyTotals)
+    .map(([month, amount]) => ({ month, amount }))
+    .sort((a, b) => a.month.localeCompare(b.month))
+    .slice(-6); // Last 6 months
+
+  // Recent transactions (last 10)
+  const recentTransactions = spendingTransactions
+    .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
+    .slice(0, 10);
+
+  return {
+    totalSpending,
+    monthlyAverage,
+    topCategory,
+    categoryBreakdown: categoryBreakdown.slice(0, 8), // Top 8 categories
+    monthlyTrends,
+    recentTransactions,
+  };
+}
+
+// Annualized spend per reward category, used by the reward engine
+export function buildCategorySpend(
+  transactions: Transaction[]
+): CategorySpend {
+  const spendingTransactions = getSpendingTransactions(transactions);
+  const annualizeFactor = 12 / countMonthsCovered(spendingTransactions);
+  const spend: CategorySpend = {};
+
+  spendingTransactions.forEach((transaction) => {
+    const category = toRewardCategory(transaction);
+    spend[category] =
+      (spend[category] || 0) + transaction.amount * annualizeFactor;
+  });
+
+  return spend;
+}
+
+// Every calendar month from the first to the last transaction, including
+// months without spending, so caps and quarterly categories line up with
+// actual transaction dates
+export function buildMonthlySpend(
+  transactions: Transaction[]
+): MonthlySpend[] {
+  const spendingTransactions = getSpendingTransactions(transactions);
+  if (spendingTransactions.length === 0) return [];
+
+  const byMonth: { [month: string]: CategorySpend } = {};
+  spendingTransactions.forEach((transaction) => {
+    const month = transaction.date.slice(0, 7);
+    const category = toRewardCategory(transaction);
+    byMonth[month] = byMonth[month] || {};
+    byMonth[month][category] =
+      (byMonth[month][category] || 0) + transaction.amount;
+  });
+
+  const months = Object.keys(byMonth).sort();
+  const [startYear, startMonth] = months[0].split("-").map(Number);
+  const last = months[months.length - 1];
+  const monthlySpend: MonthlySpend[] = [];
+
+  for (let i = 0; ; i++) {
+    const date = new Date(Date.UTC(startYear, startMonth - 1 + i, 1));
+    const month = date.toISOString().slice(0, 7);
+    monthlySpend.push({ month, categories: byMonth[month] || {} });
+    if (month === last) break;
+  }
+
+  return monthlySpend;
+}
+
+// Spread annual category spend evenly over the months of a calendar year,
+// for spend that did not come from dated transactions
+export function spreadAnnualSpend(
+  spend: CategorySpend,
+  year: number = new Date().getFullYear()
+): MonthlySpend[] {
+  return Array.from({ length: 12 }, (_, index) => {
+    const categories: CategorySpend = {};
+    (Object.keys(spend) as RewardCategory[]).forEach((category) => {
+      categories[category] = (spend[category] || 0) / 12;
+    });
+
+    return {
+      month: `${year}-${String(index + 1).padStart(2, "0")}`,
+      categories,
+    };
+  });
+}
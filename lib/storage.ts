@@ -1,6 +1,12 @@
 import * as fs from "fs";
 import * as path from "path";
 import { randomUUID } from "crypto";
+import type { ValuationOverrides, ValuationProfileName } from "./valuations";
+import type { CategorySpend, Transaction } from "./spending";
+import type { CreditTier } from "./credit-tiers";
+import type { RewardCategory } from "./cards";
+import type { CsvColumnMapping, DateFormat } from "./csv-import";
+import type { SignConvention } from "./sign-convention";
 
 // Types for our storage system
 export interface User {
@@ -10,6 +16,10 @@ export interface User {
   updated_at: string;
 }
 
+// healthy: syncing normally; needs_reauth: the bank login has to be fixed
+// through Link update mode; revoked: the user withdrew access at the bank
+export type ConnectionStatus = "healthy" | "needs_reauth" | "revoked";
+
 export interface PlaidConnection {
   id: string;
   user_id: string;
@@ -19,7 +29,11 @@ export interface PlaidConnection {
   institution_id?: string;
   accounts: PlaidAccount[];
   created_at: string;
-  last_synced?: string;
+  last_synced?: string; // Last completed /transactions/sync
+  transactions_cursor?: string; // Where the next sync picks up
+  status?: ConnectionStatus; // Missing on older records, meaning healthy
+  item_error?: string | null; // Last error code Plaid reported
+  consent_expires_at?: string | null; // When the user's consent runs out
   is_active: boolean;
 }
 
@@ -31,9 +45,130 @@ export interface PlaidAccount {
   mask?: string;
 }
 
+// A catalog card the user already holds
+export interface CurrentCard {
+  card_name: string;
+  account_id?: string; // Linked Plaid credit account, if known
+  source: "matched" | "manual";
+}
+
+export interface UserPreferences {
+  user_id: string;
+  valuation_profile?: ValuationProfileName;
+  valuation_overrides?: ValuationOverrides;
+  include_platform_rates?: boolean;
+  current_cards?: CurrentCard[];
+  credit_tier?: CreditTier;
+  updated_at: string;
+}
+
+export type UserPreferencesUpdate = Partial<
+  Omit<UserPreferences, "user_id" | "updated_at">
+>;
+
+// A named what-if spending mix saved from the simulator
+export interface SpendingScenario {
+  id: string;
+  user_id: string;
+  name: string;
+  monthly_spend: CategorySpend;
+  created_at: string;
+  updated_at: string;
+}
+
+// A card the user opened, used to check issuer application rules
+export interface CardHistoryEntry {
+  id: string;
+  user_id: string;
+  card_name: string;
+  issuer?: string; // Defaults to the issuer named in card_name
+  opened_at: string; // YYYY-MM-DD
+  closed_at?: string | null;
+  bonus_received_at?: string | null;
+  business?: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export type CardHistoryUpdate = Partial<
+  Omit<CardHistoryEntry, "id" | "user_id" | "created_at" | "updated_at">
+>;
+
+// A user's rule that reassigns the reward category of matching transactions
+export interface CategoryRule {
+  id: string;
+  user_id: string;
+  pattern: string; // Case-insensitive substring of the merchant name
+  min_amount?: number | null;
+  max_amount?: number | null;
+  account_id?: string | null; // Only transactions on this Plaid account
+  category: RewardCategory;
+  created_at: string;
+  updated_at: string;
+}
+
+export type CategoryRuleUpdate = Partial<
+  Omit<CategoryRule, "id" | "user_id" | "created_at" | "updated_at">
+>;
+
+// A reward category a classifier assigned to a normalized merchant name,
+// shared across users so each merchant is classified once
+export interface MerchantClassification {
+  merchant: string;
+  category: RewardCategory;
+  provider: string; // e.g. "ollama:qwen2.5:7b" or "stub"
+  classified_at: string;
+}
+
+// A user's correction to transfer/payment/refund detection: excluded true
+// drops the transaction from spending, false keeps it
+export interface TransactionExclusion {
+  user_id: string;
+  transaction_id: string;
+  excluded: boolean;
+  updated_at: string;
+}
+
+export type TransactionSource = "plaid" | "csv";
+
+// A transaction kept server-side so analysis doesn't refetch from Plaid
+export interface StoredTransaction extends Transaction {
+  user_id: string;
+  source: TransactionSource;
+  // Plaid item the transaction was synced from, or the CSV import it came in
+  item_id?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// A CSV file the user imported; its rows are in the transaction store with
+// the import's id as their item_id
+export interface CsvImport {
+  id: string;
+  user_id: string;
+  file_name: string;
+  mapping: CsvColumnMapping;
+  date_format: DateFormat;
+  sign_convention: SignConvention; // How the file's amounts were read
+  row_count: number;
+  added: number;
+  updated: number; // Rows already stored by an earlier import of the file
+  duplicates: number;
+  skipped_rows: number; // Rows without a valid date, amount or description
+  created_at: string;
+}
+
 export interface StorageData {
   users: User[];
   plaid_connections: PlaidConnection[];
+  user_preferences: UserPreferences[];
+  spending_scenarios: SpendingScenario[];
+  card_history: CardHistoryEntry[];
+  category_rules: CategoryRule[];
+  merchant_classifications: MerchantClassification[];
+  transaction_exclusions: TransactionExclusion[];
+  transactions: StoredTransaction[];
+  csv_imports: CsvImport[];
   version: string;
 }
 
@@ -41,11 +176,33 @@ class SimpleStorage {
   private dataDir: string;
   private usersFile: string;
   private connectionsFile: string;
+  private preferencesFile: string;
+  private scenariosFile: string;
+  private cardHistoryFile: string;
+  private categoryRulesFile: string;
+  private merchantClassificationsFile: string;
+  private exclusionsFile: string;
+  private transactionsFile: string;
+  private csvImportsFile: string;
 
   constructor() {
     this.dataDir = path.join(process.cwd(), "data");
     this.usersFile = path.join(this.dataDir, "users.json");
     this.connectionsFile = path.join(this.dataDir, "plaid_connections.json");
+    this.preferencesFile = path.join(this.dataDir, "user_preferences.json");
+    this.scenariosFile = path.join(this.dataDir, "spending_scenarios.json");
+    this.cardHistoryFile = path.join(this.dataDir, "card_history.json");
+    this.categoryRulesFile = path.join(this.dataDir, "category_rules.json");
+    this.merchantClassificationsFile = path.join(
+      this.dataDir,
+      "merchant_classifications.json"
+    );
+    this.exclusionsFile = path.join(
+      this.dataDir,
+      "transaction_exclusions.json"
+    );
+    this.transactionsFile = path.join(this.dataDir, "transactions.json");
+    this.csvImportsFile = path.join(this.dataDir, "csv_imports.json");
     this.ensureDataDirectory();
   }
 
@@ -149,6 +306,7 @@ class SimpleStorage {
       institution_id: institutionId,
       accounts,
       created_at: now,
+      status: "healthy",
       is_active: true,
     };
 
@@ -188,16 +346,413 @@ class SimpleStorage {
     });
   }
 
+  // Only the user can fix ITEM_LOGIN_REQUIRED or a revoked permission; other
+  // item errors, like an institution outage, clear up on their own and
+  // leave the status alone
+  recordConnectionError(
+    itemId: string,
+    errorCode: string
+  ): PlaidConnection | null {
+    const updates: Partial<PlaidConnection> = { item_error: errorCode };
+    if (errorCode === "ITEM_LOGIN_REQUIRED") updates.status = "needs_reauth";
+    if (errorCode === "USER_PERMISSION_REVOKED") updates.status = "revoked";
+    return this.updatePlaidConnection(itemId, updates);
+  }
+
   deactivateConnection(itemId: string): boolean {
     const updated = this.updatePlaidConnection(itemId, { is_active: false });
     return updated !== null;
   }
 
+  // User preference management
+  getAllUserPreferences(): UserPreferences[] {
+    return this.readJsonFile(this.preferencesFile, []);
+  }
+
+  getUserPreferences(userId: string): UserPreferences | null {
+    const preferences = this.getAllUserPreferences();
+    return preferences.find((pref) => pref.user_id === userId) || null;
+  }
+
+  updateUserPreferences(
+    userId: string,
+    updates: UserPreferencesUpdate
+  ): UserPreferences {
+    const preferences = this.getAllUserPreferences();
+    const index = preferences.findIndex((pref) => pref.user_id === userId);
+
+    const updated: UserPreferences = {
+      ...(index === -1 ? { user_id: userId } : preferences[index]),
+      ...updates,
+      updated_at: new Date().toISOString(),
+    };
+
+    if (index === -1) {
+      preferences.push(updated);
+    } else {
+      preferences[index] = updated;
+    }
+
+    this.writeJsonFile(this.preferencesFile, preferences);
+    return updated;
+  }
+
+  // Spending scenario management
+  getSpendingScenarios(): SpendingScenario[] {
+    return this.readJsonFile(this.scenariosFile, []);
+  }
+
+  getScenariosByUserId(userId: string): SpendingScenario[] {
+    const scenarios = this.getSpendingScenarios();
+    return scenarios.filter((scenario) => scenario.user_id === userId);
+  }
+
+  getScenarioById(scenarioId: string): SpendingScenario | null {
+    const scenarios = this.getSpendingScenarios();
+    return scenarios.find((scenario) => scenario.id === scenarioId) || null;
+  }
+
+  // Saving under an existing name replaces that scenario's spending
+  saveScenario(
+    userId: string,
+    name: string,
+    monthlySpend: CategorySpend
+  ): SpendingScenario {
+    const scenarios = this.getSpendingScenarios();
+    const now = new Date().toISOString();
+    const index = scenarios.findIndex(
+      (scenario) => scenario.user_id === userId && scenario.name === name
+    );
+
+    const scenario: SpendingScenario =
+      index === -1
+        ? {
+            id: randomUUID(),
+            user_id: userId,
+            name,
+            monthly_spend: monthlySpend,
+            created_at: now,
+            updated_at: now,
+          }
+        : { ...scenarios[index], monthly_spend: monthlySpend, updated_at: now };
+
+    if (index === -1) {
+      scenarios.push(scenario);
+    } else {
+      scenarios[index] = scenario;
+    }
+
+    this.writeJsonFile(this.scenariosFile, scenarios);
+    return scenario;
+  }
+
+  deleteScenario(scenarioId: string): boolean {
+    const scenarios = this.getSpendingScenarios();
+    const remaining = scenarios.filter((scenario) => scenario.id !== scenarioId);
+
+    if (remaining.length === scenarios.length) {
+      return false;
+    }
+
+    this.writeJsonFile(this.scenariosFile, remaining);
+    return true;
+  }
+
+  // Card history management
+  getCardHistory(): CardHistoryEntry[] {
+    return this.readJsonFile(this.cardHistoryFile, []);
+  }
+
+  getCardHistoryByUserId(userId: string): CardHistoryEntry[] {
+    const history = this.getCardHistory();
+    return history.filter((entry) => entry.user_id === userId);
+  }
+
+  addCardHistoryEntry(
+    userId: string,
+    entry: Omit<
+      CardHistoryEntry,
+      "id" | "user_id" | "created_at" | "updated_at"
+    >
+  ): CardHistoryEntry {
+    const history = this.getCardHistory();
+    const now = new Date().toISOString();
+
+    const newEntry: CardHistoryEntry = {
+      ...entry,
+      id: randomUUID(),
+      user_id: userId,
+      created_at: now,
+      updated_at: now,
+    };
+
+    history.push(newEntry);
+    this.writeJsonFile(this.cardHistoryFile, history);
+    return newEntry;
+  }
+
+  updateCardHistoryEntry(
+    entryId: string,
+    updates: CardHistoryUpdate
+  ): CardHistoryEntry | null {
+    const history = this.getCardHistory();
+    const index = history.findIndex((entry) => entry.id === entryId);
+
+    if (index === -1) {
+      return null;
+    }
+
+    history[index] = {
+      ...history[index],
+      ...updates,
+      updated_at: new Date().toISOString(),
+    };
+
+    this.writeJsonFile(this.cardHistoryFile, history);
+    return history[index];
+  }
+
+  deleteCardHistoryEntry(entryId: string): boolean {
+    const history = this.getCardHistory();
+    const remaining = history.filter((entry) => entry.id !== entryId);
+
+    if (remaining.length === history.length) {
+      return false;
+    }
+
+    this.writeJsonFile(this.cardHistoryFile, remaining);
+    return true;
+  }
+
+  // Category rule management
+  getCategoryRules(): CategoryRule[] {
+    return this.readJsonFile(this.categoryRulesFile, []);
+  }
+
+  getCategoryRulesByUserId(userId: string): CategoryRule[] {
+    const rules = this.getCategoryRules();
+    return rules.filter((rule) => rule.user_id === userId);
+  }
+
+  addCategoryRule(
+    userId: string,
+    rule: Omit<CategoryRule, "id" | "user_id" | "created_at" | "updated_at">
+  ): CategoryRule {
+    const rules = this.getCategoryRules();
+    const now = new Date().toISOString();
+
+    const newRule: CategoryRule = {
+      ...rule,
+      id: randomUUID(),
+      user_id: userId,
+      created_at: now,
+      updated_at: now,
+    };
+
+    rules.push(newRule);
+    this.writeJsonFile(this.categoryRulesFile, rules);
+    return newRule;
+  }
+
+  updateCategoryRule(
+    ruleId: string,
+    updates: CategoryRuleUpdate
+  ): CategoryRule | null {
+    const rules = this.getCategoryRules();
+    const index = rules.findIndex((rule) => rule.id === ruleId);
+
+    if (index === -1) {
+      return null;
+    }
+
+    rules[index] = {
+      ...rules[index],
+      ...updates,
+      updated_at: new Date().toISOString(),
+    };
+
+    this.writeJsonFile(this.categoryRulesFile, rules);
+    return rules[index];
+  }
+
+  deleteCategoryRule(ruleId: string): boolean {
+    const rules = this.getCategoryRules();
+    const remaining = rules.filter((rule) => rule.id !== ruleId);
+
+    if (remaining.length === rules.length) {
+      return false;
+    }
+
+    this.writeJsonFile(this.categoryRulesFile, remaining);
+    return true;
+  }
+
+  // Merchant classification cache
+  getMerchantClassifications(): MerchantClassification[] {
+    return this.readJsonFile(this.merchantClassificationsFile, []);
+  }
+
+  saveMerchantClassifications(entries: MerchantClassification[]): void {
+    const classifications = this.getMerchantClassifications();
+
+    entries.forEach((entry) => {
+      const index = classifications.findIndex(
+        (existing) => existing.merchant === entry.merchant
+      );
+      if (index === -1) {
+        classifications.push(entry);
+      } else {
+        classifications[index] = entry;
+      }
+    });
+
+    this.writeJsonFile(this.merchantClassificationsFile, classifications);
+  }
+
+  // Transaction exclusion management
+  getTransactionExclusions(): TransactionExclusion[] {
+    return this.readJsonFile(this.exclusionsFile, []);
+  }
+
+  getTransactionExclusionsByUserId(userId: string): TransactionExclusion[] {
+    const exclusions = this.getTransactionExclusions();
+    return exclusions.filter((exclusion) => exclusion.user_id === userId);
+  }
+
+  setTransactionExclusion(
+    userId: string,
+    transactionId: string,
+    excluded: boolean
+  ): TransactionExclusion {
+    const exclusions = this.getTransactionExclusions();
+    const exclusion: TransactionExclusion = {
+      user_id: userId,
+      transaction_id: transactionId,
+      excluded,
+      updated_at: new Date().toISOString(),
+    };
+
+    const index = exclusions.findIndex(
+      (existing) =>
+        existing.user_id === userId && existing.transaction_id === transactionId
+    );
+    if (index === -1) {
+      exclusions.push(exclusion);
+    } else {
+      exclusions[index] = exclusion;
+    }
+
+    this.writeJsonFile(this.exclusionsFile, exclusions);
+    return exclusion;
+  }
+
+  // Go back to automatic detection for a transaction
+  clearTransactionExclusion(userId: string, transactionId: string): boolean {
+    const exclusions = this.getTransactionExclusions();
+    const remaining = exclusions.filter(
+      (exclusion) =>
+        exclusion.user_id !== userId ||
+        exclusion.transaction_id !== transactionId
+    );
+
+    if (remaining.length === exclusions.length) {
+      return false;
+    }
+
+    this.writeJsonFile(this.exclusionsFile, remaining);
+    return true;
+  }
+
+  // Transaction store management
+  getStoredTransactions(): StoredTransaction[] {
+    return this.readJsonFile(this.transactionsFile, []);
+  }
+
+  getTransactionsByUserId(userId: string): StoredTransaction[] {
+    const transactions = this.getStoredTransactions();
+    return transactions.filter((transaction) => transaction.user_id === userId);
+  }
+
+  // Replace everything stored for a user, e.g. after merging a sync
+  saveUserTransactions(
+    userId: string,
+    transactions: StoredTransaction[]
+  ): void {
+    const others = this.getStoredTransactions().filter(
+      (transaction) => transaction.user_id !== userId
+    );
+    this.writeJsonFile(this.transactionsFile, [...others, ...transactions]);
+  }
+
+  // CSV import management
+  getCsvImports(): CsvImport[] {
+    return this.readJsonFile(this.csvImportsFile, []);
+  }
+
+  getCsvImportsByUserId(userId: string): CsvImport[] {
+    const imports = this.getCsvImports();
+    return imports.filter((entry) => entry.user_id === userId);
+  }
+
+  getCsvImportById(importId: string): CsvImport | null {
+    const imports = this.getCsvImports();
+    return imports.find((entry) => entry.id === importId) || null;
+  }
+
+  addCsvImport(entry: Omit<CsvImport, "id" | "created_at">): CsvImport {
+    const imports = this.getCsvImports();
+    const csvImport: CsvImport = {
+      ...entry,
+      id: randomUUID(),
+      created_at: new Date().toISOString(),
+    };
+
+    imports.push(csvImport);
+    this.writeJsonFile(this.csvImportsFile, imports);
+    return csvImport;
+  }
+
+  updateCsvImport(
+    importId: string,
+    updates: Partial<Omit<CsvImport, "id" | "user_id" | "created_at">>
+  ): CsvImport | null {
+    const imports = this.getCsvImports();
+    const index = imports.findIndex((entry) => entry.id === importId);
+
+    if (index === -1) {
+      return null;
+    }
+
+    imports[index] = { ...imports[index], ...updates };
+    this.writeJsonFile(this.csvImportsFile, imports);
+    return imports[index];
+  }
+
+  deleteCsvImport(importId: string): boolean {
+    const imports = this.getCsvImports();
+    const remaining = imports.filter((entry) => entry.id !== importId);
+
+    if (remaining.length === imports.length) {
+      return false;
+    }
+
+    this.writeJsonFile(this.csvImportsFile, remaining);
+    return true;
+  }
+
   // Utility methods
   getAllData(): StorageData {
     return {
       users: this.getUsers(),
       plaid_connections: this.getPlaidConnections(),
+      user_preferences: this.getAllUserPreferences(),
+      spending_scenarios: this.getSpendingScenarios(),
+      card_history: this.getCardHistory(),
+      category_rules: this.getCategoryRules(),
+      merchant_classifications: this.getMerchantClassifications(),
+      transaction_exclusions: this.getTransactionExclusions(),
+      transactions: this.getStoredTransactions(),
+      csv_imports: this.getCsvImports(),
       version: "1.0.0",
     };
   }
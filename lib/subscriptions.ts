@@ -0,0 +1,234 @@
+import type { RewardCategory } from "./cards";
+import { toRewardCategory } from "./categories";
+import { normalizeMerchantName } from "./merchant-guide";
+import {
+  countMonthsCovered,
+  getSpendingTransactions,
+  type CategorySpend,
+  type MonthlySpend,
+  type Transaction,
+} from "./spending";
+
+export type SubscriptionCadence =
+  "weekly" | "biweekly" | "monthly" | "quarterly" | "annual";
+
+export interface Subscription {
+  merchant: string;
+  category: RewardCategory;
+  cadence: SubscriptionCadence;
+  // Typical charge, the median of the matched transactions
+  amount: number;
+  monthlyCost: number;
+  transactionCount: number;
+  lastDate: string; // YYYY-MM-DD
+  nextExpectedDate: string; // YYYY-MM-DD
+  transactionIds: string[];
+}
+
+interface CadenceSpec {
+  cadence: SubscriptionCadence;
+  minDays: number;
+  maxDays: number;
+  perYear: number;
+  // Calendar step to the next charge; monthly bills keep their day of month
+  step: { days?: number; months?: number };
+}
+
+const CADENCES: CadenceSpec[] = [
+  { cadence: "weekly", minDays: 6, maxDays: 8, perYear: 52, step: { days: 7 } },
+  {
+    cadence: "biweekly",
+    minDays: 13,
+    maxDays: 16,
+    perYear: 26,
+    step: { days: 14 },
+  },
+  {
+    cadence: "monthly",
+    minDays: 26,
+    maxDays: 35,
+    perYear: 12,
+    step: { months: 1 },
+  },
+  {
+    cadence: "quarterly",
+    minDays: 85,
+    maxDays: 97,
+    perYear: 4,
+    step: { months: 3 },
+  },
+  {
+    cadence: "annual",
+    minDays: 350,
+    maxDays: 380,
+    perYear: 1,
+    step: { months: 12 },
+  },
+];
+
+// Charges within this fraction of the typical amount count as the same bill,
+// so a price increase or usage-based phone bill still matches
+const AMOUNT_TOLERANCE = 0.2;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2
+    ? sorted[middle]
+    : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+function addStep(date: string, step: CadenceSpec["step"]): string {
+  const next = new Date(`${date}T00:00:00Z`);
+  if (step.months) next.setUTCMonth(next.getUTCMonth() + step.months);
+  if (step.days) next.setUTCDate(next.getUTCDate() + step.days);
+  return next.toISOString().slice(0, 10);
+}
+
+function detectCadence(
+  transactions: Transaction[],
+  now: Date
+): CadenceSpec | null {
+  const dates = transactions.map((t) => new Date(`${t.date}T00:00:00Z`));
+  const intervals = dates
+    .slice(1)
+    .map((date, i) => (date.getTime() - dates[i].getTime()) / DAY_MS);
+  const typical = median(intervals);
+
+  const spec = CADENCES.find(
+    (c) => typical >= c.minDays && typical <= c.maxDays
+  );
+  if (!spec) return null;
+
+  // Annual bills can only show up twice in a year of history; anything more
+  // frequent needs three charges to call it a pattern
+  if (spec.cadence !== "annual" && transactions.length < 3) return null;
+  if (!intervals.every((i) => i >= spec.minDays && i <= spec.maxDays)) {
+    return null;
+  }
+
+  // A bill that missed two cycles has most likely been cancelled
+  const last = dates[dates.length - 1];
+  if (now.getTime() - last.getTime() > 2 * spec.maxDays * DAY_MS) return null;
+
+  return spec;
+}
+
+// Recurring charges: the same merchant billing a similar amount on a regular
+// cadence. Sorted by monthly cost, largest first.
+export function detectSubscriptions(
+  transactions: Transaction[],
+  now: Date = new Date()
+): Subscription[] {
+  const byMerchant = new Map<string, Transaction[]>();
+
+  getSpendingTransactions(transactions).forEach((transaction) => {
+    const key = normalizeMerchantName(transaction.name);
+    if (!key) return;
+    byMerchant.set(key, [...(byMerchant.get(key) || []), transaction]);
+  });
+
+  const subscriptions: Subscription[] = [];
+
+  byMerchant.forEach((charges) => {
+    if (charges.length < 2) return;
+
+    const amount = median(charges.map((t) => t.amount));
+    const matching = charges
+      .filter((t) => Math.abs(t.amount - amount) <= amount * AMOUNT_TOLERANCE)
+      .sort((a, b) => a.date.localeCompare(b.date));
+    if (matching.length < 2) return;
+
+    const spec = detectCadence(matching, now);
+    if (!spec) return;
+
+    const latest = matching[matching.length - 1];
+    subscriptions.push({
+      merchant: latest.name,
+      category: toRewardCategory(latest),
+      cadence: spec.cadence,
+      amount,
+      monthlyCost: (amount * spec.perYear) / 12,
+      transactionCount: matching.length,
+      lastDate: latest.date,
+      nextExpectedDate: addStep(latest.date, spec.step),
+      transactionIds: matching.map((t) => t.transaction_id),
+    });
+  });
+
+  return subscriptions.sort((a, b) => b.monthlyCost - a.monthlyCost);
+}
+
+// Annualized category spend with each subscription counted at its current
+// run rate instead of however many charges fell inside the history window,
+// so a streaming service started two months ago counts for a full year
+export function applySubscriptionRunRate(
+  spend: CategorySpend,
+  transactions: Transaction[],
+  subscriptions: Subscription[]
+): CategorySpend {
+  const annualizeFactor =
+    12 / countMonthsCovered(getSpendingTransactions(transactions));
+  const amounts = new Map(
+    transactions.map((transaction) => [
+      transaction.transaction_id,
+      transaction.amount,
+    ])
+  );
+  const adjusted: CategorySpend = { ...spend };
+
+  subscriptions.forEach((subscription) => {
+    const observed = subscription.transactionIds.reduce(
+      (sum, id) => sum + (amounts.get(id) || 0),
+      0
+    );
+    adjusted[subscription.category] = Math.max(
+      0,
+      (adjusted[subscription.category] || 0) +
+        subscription.monthlyCost * 12 -
+        observed * annualizeFactor
+    );
+  });
+
+  return adjusted;
+}
+
+// The same run rate applied to the month-by-month series the reward engine
+// values cards on: each subscription's charges are replaced by its monthly
+// cost in every month, so card values agree with applySubscriptionRunRate
+export function applySubscriptionRunRateByMonth(
+  monthlySpend: MonthlySpend[],
+  transactions: Transaction[],
+  subscriptions: Subscription[]
+): MonthlySpend[] {
+  const byId = new Map(
+    transactions.map((transaction) => [transaction.transaction_id, transaction])
+  );
+  const adjusted = monthlySpend.map(({ month, categories }) => ({
+    month,
+    categories: { ...categories },
+  }));
+  const byMonth = new Map(adjusted.map((entry) => [entry.month, entry]));
+
+  subscriptions.forEach((subscription) => {
+    const { category } = subscription;
+
+    subscription.transactionIds.forEach((id) => {
+      const transaction = byId.get(id);
+      const entry = transaction && byMonth.get(transaction.date.slice(0, 7));
+      if (!entry) return;
+      entry.categories[category] =
+        (entry.categories[category] || 0) - transaction.amount;
+    });
+
+    adjusted.forEach((entry) => {
+      entry.categories[category] = Math.max(
+        0,
+        (entry.categories[category] || 0) + subscription.monthlyCost
+      );
+    });
+  });
+
+  return adjusted;
+}
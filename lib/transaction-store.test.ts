@@ -0,0 +1,119 @@
+import { after, before, beforeEach, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import type { Transaction } from "./spending";
+
+// Storage reads data/ under the working directory when it is first
+// imported, so it is loaded from a scratch directory in before()
+type Storage = typeof import("./storage").storage;
+type TransactionStore = typeof import("./transaction-store");
+
+const cwd = process.cwd();
+const scratch = fs.mkdtempSync(path.join(os.tmpdir(), "transaction-store-"));
+let storage: Storage;
+let store: TransactionStore;
+
+before(async () => {
+  process.chdir(scratch);
+  ({ storage } = await import("./storage"));
+  store = await import("./transaction-store");
+});
+
+after(() => {
+  process.chdir(cwd);
+  fs.rmSync(scratch, { recursive: true, force: true });
+});
+
+function purchase(id: string, date: string): Transaction {
+  return {
+    transaction_id: id,
+    account_id: "account",
+    amount: 25,
+    date,
+    name: "Kroger",
+  };
+}
+
+// A CSV import of one purchase on the first of each month, `count` months
+// from `start` (YYYY-MM)
+function importCsv(userId: string, start: string, count: number) {
+  const csvImport = storage.addCsvImport({
+    user_id: userId,
+    file_name: "export.csv",
+    mapping: { date: 0, description: 1, amount: 2 },
+    date_format: "YYYY-MM-DD",
+    sign_convention: "outflow_negative",
+    row_count: count,
+    added: 0,
+    updated: 0,
+    duplicates: 0,
+    skipped_rows: 0,
+  });
+  const [year, month] = start.split("-").map(Number);
+  const transactions = Array.from({ length: count }, (_, index) => {
+    const date = new Date(Date.UTC(year, month - 1 + index, 1));
+    return purchase(`csv-${index}`, date.toISOString().slice(0, 10));
+  });
+  store.storeTransactions(userId, "csv", transactions, csvImport.id);
+}
+
+describe("getStoredTransactionWindow", () => {
+  let userId: string;
+
+  beforeEach(() => {
+    fs.rmSync(path.join(scratch, "data"), { recursive: true, force: true });
+    fs.mkdirSync(path.join(scratch, "data"));
+    userId = storage.createUser("store@example.com").id;
+  });
+
+  test("ends at the newest transaction without a bank connection", () => {
+    importCsv(userId, "2023-01", 18);
+
+    const window = store.getStoredTransactionWindow(userId, 12);
+
+    // Twelve months back from the newest row, June 2024
+    assert.equal(window.since, "2023-06-01");
+    assert.equal(window.transactions.length, 13);
+    assert.equal(window.outsideWindow, 5);
+  });
+
+  test("ends today once a bank connection is linked", () => {
+    importCsv(userId, "2023-01", 18);
+    storage.createPlaidConnection(userId, "access-token", "item", "Bank");
+
+    const window = store.getStoredTransactionWindow(userId, 12);
+
+    assert.equal(window.transactions.length, 0);
+    assert.equal(window.outsideWindow, 18);
+  });
+
+  test("leaves out transactions from a removed import", () => {
+    importCsv(userId, "2023-01", 3);
+    const [csvImport] = storage.getCsvImportsByUserId(userId);
+    storage.deleteCsvImport(csvImport.id);
+
+    const window = store.getStoredTransactionWindow(userId, 12);
+
+    assert.equal(window.transactions.length, 0);
+    assert.equal(window.outsideWindow, 0);
+  });
+});
+
+describe("parseMonthsParam", () => {
+  test("defaults to a year", () => {
+    assert.equal(store.parseMonthsParam(null), 12);
+  });
+
+  test("accepts a positive whole number", () => {
+    assert.equal(store.parseMonthsParam("3"), 3);
+    assert.equal(store.parseMonthsParam("24"), 24);
+  });
+
+  test("rejects anything else", () => {
+    for (const value of ["", "0", "-3", "6.5", "12abc", "abc"]) {
+      assert.equal(store.parseMonthsParam(value), null, value);
+    }
+  });
+});
@@ -0,0 +1,180 @@
+import { normalizeMerchantName } from "./merchant-guide";
+import {
+  storage,
+  type StoredTransaction,
+  type TransactionSource,
+} from "./storage";
+import type { Transaction } from "./spending";
+
+export interface StoreResult {
+  added: number;
+  updated: number;
+  // Rows already stored from another source, e.g. a CSV export of
+  // transactions Plaid also synced
+  duplicates: number;
+}
+
+// The same purchase seen through two sources: CSV account ids are made up
+// and transaction ids differ, so only date, amount and merchant are compared.
+// Within one source, transaction ids are the only identity: two identical
+// coffees on the same day are two purchases.
+function fingerprint(transaction: Transaction): string {
+  return [
+    transaction.date,
+    transaction.amount.toFixed(2),
+    normalizeMerchantName(transaction.name),
+  ].join("|");
+}
+
+// Merge incoming transactions into the user's store. A transaction_id seen
+// before is updated in place (a re-sync), a posted transaction replaces the
+// pending one it settles, and a row matching another source's transaction
+// is skipped, except that Plaid's copy replaces a CSV one. Fingerprints are
+// only compared across sources.
+export function storeTransactions(
+  userId: string,
+  source: TransactionSource,
+  transactions: Transaction[],
+  itemId: string | null = null
+): StoreResult {
+  const stored = storage.getTransactionsByUserId(userId);
+  const byId = new Map(stored.map((t) => [t.transaction_id, t]));
+  // Stored rows by fingerprint; each one absorbs at most one incoming
+  // duplicate, so two identical purchases on the same day both count
+  const byFingerprint = new Map<string, StoredTransaction[]>();
+  stored.forEach((t) => {
+    const key = fingerprint(t);
+    byFingerprint.set(key, [...(byFingerprint.get(key) || []), t]);
+  });
+  const result: StoreResult = { added: 0, updated: 0, duplicates: 0 };
+  const now = new Date().toISOString();
+
+  transactions.forEach((transaction) => {
+    const existing =
+      byId.get(transaction.transaction_id) ||
+      (transaction.pending_transaction_id &&
+        byId.get(transaction.pending_transaction_id));
+
+    const candidates =
+      byFingerprint.get(fingerprint(existing || transaction)) || [];
+    let duplicate: StoredTransaction | undefined;
+    if (existing) {
+      // Matched by id, so it can't also absorb another row
+      const index = candidates.indexOf(existing);
+      if (index !== -1) candidates.splice(index, 1);
+    } else {
+      const index = candidates.findIndex((t) => t.source !== source);
+      if (index !== -1) [duplicate] = candidates.splice(index, 1);
+    }
+    if (duplicate && source === "csv") {
+      result.duplicates += 1;
+      return;
+    }
+
+    const replaced = existing || duplicate;
+    const next: StoredTransaction = {
+      ...transaction,
+      user_id: userId,
+      source,
+      item_id: itemId,
+      created_at: replaced ? replaced.created_at : now,
+      updated_at: now,
+    };
+
+    if (replaced) {
+      byId.delete(replaced.transaction_id);
+      result.updated += 1;
+    } else {
+      result.added += 1;
+    }
+    byId.set(next.transaction_id, next);
+  });
+
+  storage.saveUserTransactions(userId, Array.from(byId.values()));
+  return result;
+}
+
+// Drop transactions Plaid reports as removed, e.g. a pending transaction
+// that expired. Returns how many were stored.
+export function removeStoredTransactions(
+  userId: string,
+  transactionIds: string[]
+): number {
+  if (transactionIds.length === 0) return 0;
+
+  const ids = new Set(transactionIds);
+  const stored = storage.getTransactionsByUserId(userId);
+  const remaining = stored.filter((t) => !ids.has(t.transaction_id));
+
+  if (remaining.length !== stored.length) {
+    storage.saveUserTransactions(userId, remaining);
+  }
+  return stored.length - remaining.length;
+}
+
+export interface StoredTransactionWindow {
+  transactions: StoredTransaction[];
+  // First day of the window, YYYY-MM-DD
+  since: string;
+  // Stored transactions older than the window, e.g. the early part of a
+  // long CSV export
+  outsideWindow: number;
+}
+
+// Stored transactions from the `months` before today, leaving out anything
+// from a connection or CSV import the user has since removed. Without a
+// bank connection the window ends at the newest transaction instead, so a
+// CSV export from a past year is still analyzed.
+export function getStoredTransactionWindow(
+  userId: string,
+  months: number = 12
+): StoredTransactionWindow {
+  const connections = storage.getConnectionsByUserId(userId);
+  const activeItems = new Set([
+    ...connections.map((conn) => conn.item_id),
+    ...storage.getCsvImportsByUserId(userId).map((entry) => entry.id),
+  ]);
+  const active = storage
+    .getTransactionsByUserId(userId)
+    .filter(
+      (transaction) =>
+        !transaction.item_id || activeItems.has(transaction.item_id)
+    );
+
+  const newest = active.reduce(
+    (latest, transaction) =>
+      transaction.date > latest ? transaction.date : latest,
+    ""
+  );
+  const end =
+    connections.length === 0 && newest
+      ? new Date(`${newest}T00:00:00Z`)
+      : new Date();
+  end.setUTCMonth(end.getUTCMonth() - months);
+  const since = end.toISOString().split("T")[0];
+
+  const transactions = active.filter(
+    (transaction) => transaction.date >= since
+  );
+  return {
+    transactions,
+    since,
+    outsideWindow: active.length - transactions.length,
+  };
+}
+
+// The `months` query parameter: a whole number of months from 1 up, 12 when
+// absent. Null for anything else, e.g. "0", "-3", "6.5" or "12abc".
+export function parseMonthsParam(value: string | null): number | null {
+  if (value === null) return 12;
+  if (!/^\d+$/.test(value)) return null;
+  const months = parseInt(value, 10);
+  return months > 0 ? months : null;
+}
+
+export function getStoredUserTransactions(
+  userId: string,
+  months: number = 12
+): StoredTransaction[] {
+  return getStoredTransactionWindow(userId, months).transactions;
+}
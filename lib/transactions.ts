@@ -0,0 +1,195 @@
+import {
+  getPlaidErrorCode,
+  getPlaidErrorDetails,
+  plaidClient,
+} from "./plaid";
+import type { Transaction as PlaidTransaction } from "plaid";
+import { storage, type PlaidConnection } from "./storage";
+import { PLAID_SIGN_CONVENTION, toCanonicalAmount } from "./sign-convention";
+import type { Transaction } from "./spending";
+import {
+  getStoredTransactionWindow,
+  removeStoredTransactions,
+  storeTransactions,
+  type StoreResult,
+} from "./transaction-store";
+import { classifyUncategorized } from "./merchant-classifier";
+import { applyCategoryRules } from "./category-rules";
+import { applyExclusions, type ExcludedTransaction } from "./exclusions";
+
+export interface ConnectionError {
+  item_id: string;
+  institution_name?: string;
+  error_code: string;
+}
+
+export interface UserTransactions {
+  transactions: Transaction[];
+  errors: ConnectionError[];
+}
+
+export interface PreparedTransactions extends UserTransactions {
+  // Transfers, card payments and refunded purchases left out of transactions
+  excluded: ExcludedTransaction[];
+  // Stored transactions older than the requested months
+  outsideWindow: number;
+}
+
+// Connections synced more recently than this are served from the store
+const SYNC_INTERVAL_MS = 6 * 60 * 60 * 1000;
+
+// The fields we keep from a Plaid transaction
+export function toTransaction(transaction: PlaidTransaction): Transaction {
+  return {
+    transaction_id: transaction.transaction_id,
+    account_id: transaction.account_id,
+    amount: toCanonicalAmount(transaction.amount, PLAID_SIGN_CONVENTION),
+    date: transaction.date,
+    name: transaction.name,
+    category: transaction.category || undefined,
+    personal_finance_category: transaction.personal_finance_category,
+    payment_channel: transaction.payment_channel,
+    pending_transaction_id: transaction.pending_transaction_id,
+  };
+}
+
+export interface SyncResult extends StoreResult {
+  removed: number;
+}
+
+// Plaid asks for pagination to restart from the original cursor when the
+// item changes mid-sync
+const SYNC_MUTATION_ERROR = "TRANSACTIONS_SYNC_MUTATION_DURING_PAGINATION";
+const MAX_SYNC_ATTEMPTS = 3;
+
+// Pull every change since the connection's cursor with /transactions/sync.
+// Deltas are applied to the store, and the new cursor and last_synced
+// saved, only once all pages have been fetched, so a failed sync can simply
+// be retried from the same cursor.
+export async function syncConnectionTransactions(
+  connection: PlaidConnection
+): Promise<SyncResult> {
+  for (let attempt = 1; ; attempt++) {
+    const added: PlaidTransaction[] = [];
+    const removed: string[] = [];
+    let cursor = connection.transactions_cursor || undefined;
+
+    try {
+      let hasMore = true;
+      while (hasMore) {
+        const response = await plaidClient.transactionsSync({
+          access_token: connection.access_token,
+          cursor,
+          count: 500,
+        });
+
+        added.push(...response.data.added, ...response.data.modified);
+        removed.push(
+          ...response.data.removed.map((removal) => removal.transaction_id)
+        );
+        hasMore = response.data.has_more;
+        cursor = response.data.next_cursor;
+      }
+    } catch (error) {
+      if (
+        getPlaidErrorCode(error) === SYNC_MUTATION_ERROR &&
+        attempt < MAX_SYNC_ATTEMPTS
+      ) {
+        continue;
+      }
+
+      const errorCode = getPlaidErrorCode(error);
+      if (errorCode) {
+        storage.recordConnectionError(connection.item_id, errorCode);
+      }
+      throw error;
+    }
+
+    const result = storeTransactions(
+      connection.user_id,
+      "plaid",
+      added.map(toTransaction),
+      connection.item_id
+    );
+    const removedCount = removeStoredTransactions(connection.user_id, removed);
+
+    storage.updatePlaidConnection(connection.item_id, {
+      transactions_cursor: cursor,
+      last_synced: new Date().toISOString(),
+      status: "healthy",
+      item_error: null,
+    });
+
+    return { ...result, removed: removedCount };
+  }
+}
+
+// Sync any of the user's active connections that haven't been synced in
+// the last few hours. A failing connection is reported instead of failing
+// the whole request; its previously stored transactions are still used.
+// Connections waiting on the user to fix them aren't retried.
+export async function refreshUserTransactions(
+  userId: string
+): Promise<ConnectionError[]> {
+  const errors: ConnectionError[] = [];
+  const staleBefore = Date.now() - SYNC_INTERVAL_MS;
+
+  for (const connection of storage.getConnectionsByUserId(userId)) {
+    if (connection.status && connection.status !== "healthy") {
+      errors.push({
+        item_id: connection.item_id,
+        institution_name: connection.institution_name,
+        error_code: connection.item_error || "ITEM_LOGIN_REQUIRED",
+      });
+      continue;
+    }
+
+    if (
+      connection.last_synced &&
+      new Date(connection.last_synced).getTime() > staleBefore
+    ) {
+      continue;
+    }
+
+    try {
+      await syncConnectionTransactions(connection);
+    } catch (error) {
+      console.error(
+        `Error loading transactions for ${connection.institution_name}:`,
+        getPlaidErrorDetails(error)
+      );
+      errors.push({
+        item_id: connection.item_id,
+        institution_name: connection.institution_name,
+        error_code: getPlaidErrorCode(error) || "UNKNOWN_ERROR",
+      });
+    }
+  }
+
+  return errors;
+}
+
+// A user's transactions ready for analysis: uncategorized merchants
+// classified, the user's merchant rules applied (they override the
+// classifier), and transfers, card payments and refunds set aside
+export async function prepareUserTransactions(
+  userId: string,
+  months: number = 12
+): Promise<PreparedTransactions> {
+  const errors = await refreshUserTransactions(userId);
+  const { transactions, outsideWindow } = getStoredTransactionWindow(
+    userId,
+    months
+  );
+
+  const categorized = applyCategoryRules(
+    await classifyUncategorized(transactions),
+    storage.getCategoryRulesByUserId(userId)
+  );
+  const { included, excluded } = applyExclusions(
+    categorized,
+    storage.getTransactionExclusionsByUserId(userId)
+  );
+
+  return { transactions: included, excluded, errors, outsideWindow };
+}
@@ -0,0 +1,149 @@
+import defaultValuations from "./config/valuations.json";
+import type { CreditCard, RewardCurrency } from "./cards";
+
+export type ValuationProfileName = "conservative" | "standard" | "optimistic";
+
+export const VALUATION_PROFILES: ValuationProfileName[] = [
+  "conservative",
+  "standard",
+  "optimistic",
+];
+
+// Cents per point/mile (cash back is always 1 cent per percent)
+export interface ValuationTable {
+  currencies: Record<RewardCurrency, number>;
+  // Keyed by issuer name as it appears in card names, e.g. "chase"
+  programs: { [issuer: string]: Partial<Record<RewardCurrency, number>> };
+  // Multipliers for rewards earned through a redemption platform,
+  // keyed by the platform name the rewards parser emits
+  platformBoosts: { [platform: string]: number };
+}
+
+// Per-user changes layered over a profile
+export interface ValuationOverrides {
+  currencies?: Partial<Record<RewardCurrency, number>>;
+  programs?: ValuationTable["programs"];
+  platformBoosts?: ValuationTable["platformBoosts"];
+}
+
+export interface ValuationSettings {
+  profile?: ValuationProfileName;
+  overrides?: ValuationOverrides;
+}
+
+const CURRENCIES: RewardCurrency[] = ["points", "miles", "cashback"];
+
+const profiles = defaultValuations.profiles as Record<
+  ValuationProfileName,
+  ValuationTable
+>;
+
+export const DEFAULT_VALUATION_PROFILE =
+  defaultValuations.defaultProfile as ValuationProfileName;
+
+export function isValuationProfile(
+  value: unknown
+): value is ValuationProfileName {
+  return VALUATION_PROFILES.includes(value as ValuationProfileName);
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+function isValuation(value: unknown): value is number {
+  return typeof value === "number" && isFinite(value) && value > 0;
+}
+
+// Cents per unit for known currencies only, e.g. { points: 1.5 }
+function parseCurrencyValues(
+  value: unknown
+): Partial<Record<RewardCurrency, number>> | null {
+  if (!isPlainObject(value)) return null;
+
+  const values: Partial<Record<RewardCurrency, number>> = {};
+  for (const [currency, cents] of Object.entries(value)) {
+    if (!CURRENCIES.includes(currency as RewardCurrency)) return null;
+    if (!isValuation(cents)) return null;
+    values[currency as RewardCurrency] = cents;
+  }
+  return values;
+}
+
+// Validate valuation overrides sent with preferences: known currencies,
+// non-empty issuer and platform names, and finite positive numbers. An
+// empty issuer would match every card name. Returns null if anything is
+// malformed.
+export function parseValuationOverrides(
+  value: unknown
+): ValuationOverrides | null {
+  if (!isPlainObject(value)) return null;
+
+  const overrides: ValuationOverrides = {};
+  for (const [key, entry] of Object.entries(value)) {
+    if (key === "currencies") {
+      const currencies = parseCurrencyValues(entry);
+      if (!currencies) return null;
+      overrides.currencies = currencies;
+    } else if (key === "programs") {
+      if (!isPlainObject(entry)) return null;
+      overrides.programs = {};
+      for (const [issuer, values] of Object.entries(entry)) {
+        const program = parseCurrencyValues(values);
+        if (!issuer.trim() || !program) return null;
+        overrides.programs[issuer.trim()] = program;
+      }
+    } else if (key === "platformBoosts") {
+      if (!isPlainObject(entry)) return null;
+      overrides.platformBoosts = {};
+      for (const [platform, boost] of Object.entries(entry)) {
+        if (!platform.trim() || !isValuation(boost)) return null;
+        overrides.platformBoosts[platform] = boost;
+      }
+    } else {
+      return null;
+    }
+  }
+
+  return overrides;
+}
+
+// Resolve a profile plus overrides into a single table
+export function getValuationTable(
+  settings: ValuationSettings = {}
+): ValuationTable {
+  const base = profiles[settings.profile || DEFAULT_VALUATION_PROFILE];
+  const overrides = settings.overrides || {};
+
+  const programs = { ...base.programs };
+  Object.entries(overrides.programs || {}).forEach(([issuer, values]) => {
+    const key = issuer.toLowerCase();
+    programs[key] = { ...programs[key], ...values };
+  });
+
+  return {
+    currencies: { ...base.currencies, ...overrides.currencies },
+    programs,
+    platformBoosts: { ...base.platformBoosts, ...overrides.platformBoosts },
+  };
+}
+
+// Cents one unit of a card's reward currency is worth
+export function getCentsPerUnit(
+  table: ValuationTable,
+  card: CreditCard,
+  currency: RewardCurrency,
+  platform: string | null = null
+): number {
+  if (currency === "cashback") return table.currencies.cashback;
+
+  const cardName = card.name.toLowerCase();
+  const issuer = Object.keys(table.programs).find((key) =>
+    cardName.includes(key)
+  );
+  const programValue = issuer ? table.programs[issuer][currency] : undefined;
+  const cents = programValue ?? table.currencies[currency];
+  const boost = platform ? table.platformBoosts[platform] ?? 1 : 1;
+
+  return cents * boost;
+}
@@ -0,0 +1,218 @@
+import type { CardImage, CreditCard, RewardCategory } from "./cards";
+import {
+  calculateCardValue,
+  type CardRewardValue,
+  type EarnRate,
+  type RewardOptions,
+} from "./rewards";
+import type { CategorySpend } from "./spending";
+
+export interface WalletOptions extends RewardOptions {
+  // Maximum number of cards in the wallet
+  walletSize?: number;
+  // Maximum combined annual fees; null for no limit
+  annualFeeBudget?: number | null;
+  // Number of runner-up wallets to return
+  alternatives?: number;
+}
+
+export interface WalletAssignment extends EarnRate {
+  category: RewardCategory;
+  card: string;
+  spend: number;
+  value: number;
+}
+
+export interface WalletCard {
+  name: string;
+  image?: CardImage;
+  annualFee: number;
+  // Rewards earned by the categories routed to this card
+  annualRewards: number;
+}
+
+export interface WalletResult {
+  cards: WalletCard[];
+  annualRewards: number;
+  annualFees: number;
+  netAnnualValue: number;
+  assignments: WalletAssignment[];
+}
+
+export interface WalletOptimization {
+  best: WalletResult | null;
+  alternatives: WalletResult[];
+  combinationsEvaluated: number;
+}
+
+export const MAX_WALLET_SIZE = 3;
+
+// Cards kept per category, plus the cards with the best standalone net
+// value, before combinations are searched. A card outside both lists is
+// beaten in every category it earns on by several kept cards.
+const CANDIDATES_PER_CATEGORY = MAX_WALLET_SIZE;
+const CANDIDATES_BY_NET_VALUE = 10;
+
+const DEFAULT_WALLET_OPTIONS: Required<
+  Pick<WalletOptions, "walletSize" | "annualFeeBudget" | "alternatives">
+> = {
+  walletSize: 2,
+  annualFeeBudget: null,
+  alternatives: 3,
+};
+
+// Route every category to the card in the combination that earns most on it
+export function evaluateWallet(values: CardRewardValue[]): WalletResult {
+  const assignments: WalletAssignment[] = [];
+  const categories = new Set(
+    values.flatMap((value) => value.contributions.map((c) => c.category))
+  );
+
+  categories.forEach((category) => {
+    let best: WalletAssignment | null = null;
+
+    for (const value of values) {
+      const contribution = value.contributions.find(
+        (c) => c.category === category
+      );
+      if (contribution && (!best || contribution.value > best.value)) {
+        best = { ...contribution, card: value.card.name };
+      }
+    }
+
+    if (best) assignments.push(best);
+  });
+
+  assignments.sort((a, b) => b.value - a.value);
+
+  const cards = values.map((value) => ({
+    name: value.card.name,
+    image: value.card.image,
+    annualFee: value.annualFee,
+    annualRewards: assignments
+      .filter((a) => a.card === value.card.name)
+      .reduce((sum, a) => sum + a.value, 0),
+  }));
+  const annualRewards = assignments.reduce((sum, a) => sum + a.value, 0);
+  const annualFees = cards.reduce((sum, card) => sum + card.annualFee, 0);
+
+  return {
+    cards,
+    annualRewards,
+    annualFees,
+    netAnnualValue: annualRewards - annualFees,
+    assignments,
+  };
+}
+
+// Every combination of `size` items, in input order, one at a time
+function* combinations<T>(
+  items: T[],
+  size: number,
+  start: number = 0
+): Generator<T[]> {
+  if (size === 0) {
+    yield [];
+    return;
+  }
+
+  for (let i = start; i <= items.length - size; i++) {
+    for (const rest of combinations(items, size - 1, i + 1)) {
+      yield [items[i], ...rest];
+    }
+  }
+}
+
+// The cards worth combining: the best few in each category and the best
+// overall, in their original order
+function pruneCandidates(values: CardRewardValue[]): CardRewardValue[] {
+  const kept = new Set<CardRewardValue>();
+  const byNetValue = [...values].sort(
+    (a, b) => b.netAnnualValue - a.netAnnualValue
+  );
+  byNetValue
+    .slice(0, CANDIDATES_BY_NET_VALUE)
+    .forEach((value) => kept.add(value));
+
+  const categories = new Set(
+    values.flatMap((value) => value.contributions.map((c) => c.category))
+  );
+  categories.forEach((category) => {
+    const contribution = (value: CardRewardValue) =>
+      value.contributions.find((c) => c.category === category)?.value || 0;
+    values
+      .filter((value) => contribution(value) > 0)
+      .sort((a, b) => contribution(b) - contribution(a))
+      .slice(0, CANDIDATES_PER_CATEGORY)
+      .forEach((value) => kept.add(value));
+  });
+
+  return values.filter((value) => kept.has(value));
+}
+
+// Insert into a list sorted by net value, best first, keeping at most
+// `limit` entries. Ties keep the earlier wallet first.
+function insertRanked(
+  ranked: WalletResult[],
+  wallet: WalletResult,
+  limit: number
+) {
+  if (
+    ranked.length >= limit &&
+    wallet.netAnnualValue <= ranked[ranked.length - 1].netAnnualValue
+  ) {
+    return;
+  }
+
+  const index = ranked.findIndex(
+    (entry) => wallet.netAnnualValue > entry.netAnnualValue
+  );
+  ranked.splice(index === -1 ? ranked.length : index, 0, wallet);
+  if (ranked.length > limit) ranked.pop();
+}
+
+// Search card combinations up to the wallet size for the one with the
+// highest net rewards. Smaller wallets compete too, since an extra card's
+// fee can outweigh what it adds.
+export function optimizeWallet(
+  cards: CreditCard[],
+  spend: CategorySpend,
+  options: WalletOptions = {}
+): WalletOptimization {
+  const { walletSize, annualFeeBudget, alternatives } = {
+    ...DEFAULT_WALLET_OPTIONS,
+    ...options,
+  };
+  const size = Math.min(Math.max(1, walletSize), MAX_WALLET_SIZE);
+  // A card over the fee budget on its own can't be in any wallet
+  const values = pruneCandidates(
+    cards
+      .map((card) => calculateCardValue(card, spend, options))
+      .filter(
+        (value) =>
+          annualFeeBudget === null || value.annualFee <= annualFeeBudget
+      )
+  );
+  const results: WalletResult[] = [];
+  let combinationsEvaluated = 0;
+
+  for (let n = 1; n <= size; n++) {
+    for (const combo of combinations(values, n)) {
+      combinationsEvaluated++;
+      const fees = combo.reduce((sum, value) => sum + value.annualFee, 0);
+      if (annualFeeBudget !== null && fees > annualFeeBudget) continue;
+
+      const wallet = evaluateWallet(combo);
+      // A card nothing is routed to only adds its fee
+      if (wallet.cards.some((card) => card.annualRewards === 0)) continue;
+
+      insertRanked(results, wallet, alternatives + 1);
+    }
+  }
+
+  return {
+    best: results[0] || null,
+    alternatives: results.slice(1, alternatives + 1),
+    combinationsEvaluated,
+  };
+}
@@ -0,0 +1,116 @@
+#!/usr/bin/env npx tsx
+
+import { createHash, generateKeyPairSync, sign, type JsonWebKey } from "crypto";
+import { readFileSync } from "fs";
+
+const LOCAL_KEY_ID = "local-test-key";
+
+function printHelp() {
+  console.log(`
+🪝 Plaid Webhook CLI
+
+Replays recorded webhook payloads against the webhook route, signed the way
+Plaid signs them but with a local key.
+
+Usage: npx tsx scripts/webhook-cli.ts <command> [options]
+
+Commands:
+  keygen                          Generate a local signing key pair
+  send <payload.json> [url]      Sign a payload and POST it
+  help                          Show this help message
+
+Setup:
+  1. Run keygen and start the app with the public key printed:
+       PLAID_WEBHOOK_VERIFICATION_KEY='<public jwk>' npm run dev
+  2. Export the private key in the shell that sends:
+       export PLAID_WEBHOOK_SIGNING_KEY='<private jwk>'
+  3. Set item_id in the payload to one of your connections
+
+Examples:
+  npx tsx scripts/webhook-cli.ts keygen
+  npx tsx scripts/webhook-cli.ts send scripts/webhooks/item-error.json
+  npx tsx scripts/webhook-cli.ts send scripts/webhooks/sync-updates-available.json http://localhost:3000/api/plaid/webhook
+`);
+}
+
+function toBase64Url(value: object): string {
+  return Buffer.from(JSON.stringify(value)).toString("base64url");
+}
+
+// A Plaid-Verification JWT over the body: ES256, with the body's SHA-256
+function signBody(body: string, privateKey: JsonWebKey): string {
+  const header = toBase64Url({ alg: "ES256", kid: LOCAL_KEY_ID, typ: "JWT" });
+  const payload = toBase64Url({
+    iat: Math.floor(Date.now() / 1000),
+    request_body_sha256: createHash("sha256").update(body).digest("hex"),
+  });
+  const signature = sign("sha256", Buffer.from(`${header}.${payload}`), {
+    key: privateKey,
+    format: "jwk",
+    dsaEncoding: "ieee-p1363",
+  });
+  return `${header}.${payload}.${signature.toString("base64url")}`;
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const command = args[0];
+
+  try {
+    switch (command) {
+      case "keygen": {
+        const { publicKey, privateKey } = generateKeyPairSync("ec", {
+          namedCurve: "P-256",
+        });
+        const publicJwk = publicKey.export({ format: "jwk" });
+        const privateJwk = privateKey.export({ format: "jwk" });
+        console.log("🔑 PLAID_WEBHOOK_VERIFICATION_KEY (for the app):");
+        console.log(
+          `   ${JSON.stringify({ ...publicJwk, kid: LOCAL_KEY_ID })}`
+        );
+        console.log("🔐 PLAID_WEBHOOK_SIGNING_KEY (for this CLI):");
+        console.log(`   ${JSON.stringify(privateJwk)}`);
+        break;
+      }
+
+      case "send": {
+        const file = args[1];
+        const url = args[2] || "http://localhost:3000/api/plaid/webhook";
+        const signingKey = process.env.PLAID_WEBHOOK_SIGNING_KEY;
+
+        if (!file) {
+          console.error("❌ Payload file is required");
+          process.exit(1);
+        }
+        if (!signingKey) {
+          console.error("❌ PLAID_WEBHOOK_SIGNING_KEY is not set; run keygen");
+          process.exit(1);
+        }
+
+        const body = readFileSync(file, "utf8");
+        const response = await fetch(url, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            "Plaid-Verification": signBody(body, JSON.parse(signingKey)),
+          },
+          body,
+        });
+        console.log(`📨 ${response.status} ${await response.text()}`);
+        break;
+      }
+
+      case "help":
+      default:
+        printHelp();
+        break;
+    }
+  } catch (error) {
+    console.error("❌ Error:", error);
+    process.exit(1);
+  }
+}
+
+if (require.main === module) {
+  main();
+}